@@ -0,0 +1,230 @@
+import { ControlHubAPI } from '../api/ControlHubAPI';
+import {
+    AnalysisItem,
+    Pipeline,
+    PipelineAnalysis,
+    PipelineStage,
+    PipelineStatus,
+    StageStatus,
+    getPipelineDuration,
+    getStageDuration
+} from '../models/Pipeline';
+import { formatDuration } from '../utils/format';
+
+export type AnalysisSource = 'server' | 'local';
+
+export interface AnalysisResult {
+    analysis: PipelineAnalysis;
+    source: AnalysisSource;
+    historySize: number;
+}
+
+// Number of recent successful runs used as the baseline for local analysis
+const HISTORY_SIZE = 5;
+
+// A stage counts as a bottleneck when it is this much slower than its median
+const SLOWDOWN_MEDIUM = 1.5;
+const SLOWDOWN_HIGH = 2;
+// ...and slower by at least this many seconds, so tiny stages don't dominate
+const MIN_SLOWDOWN_SECONDS = 10;
+// Without history, a stage that takes this share of the pipeline is a bottleneck
+const SHARE_MEDIUM = 0.4;
+const SHARE_HIGH = 0.6;
+
+const IMPACT_ORDER: { [impact: string]: number } = { high: 0, medium: 1, low: 2 };
+
+/**
+ * Gets the analysis for a pipeline from the Control Hub, falling back to a
+ * local analysis against recent runs of the same application.
+ */
+export async function getPipelineAnalysis(api: ControlHubAPI, pipeline: Pipeline): Promise<AnalysisResult> {
+    const remote = await api.analyzePipeline(pipeline.id);
+    if (remote) {
+        return { analysis: sortAnalysis(remote), source: 'server', historySize: 0 };
+    }
+
+    const history = await loadHistory(api, pipeline);
+    return {
+        analysis: computeLocalAnalysis(pipeline, history),
+        source: 'local',
+        historySize: history.length
+    };
+}
+
+async function loadHistory(api: ControlHubAPI, pipeline: Pipeline): Promise<Pipeline[]> {
+    const recent = await api.listPipelines(
+        { appName: pipeline.appName, status: PipelineStatus.SUCCEEDED },
+        HISTORY_SIZE + 1
+    );
+    // Without history the analysis still covers the pipeline itself
+    const candidates = (recent.ok ? recent.value.pipelines : []).filter(p => p.id !== pipeline.id).slice(0, HISTORY_SIZE);
+
+    // The list endpoint only returns stage counts, so fetch the details
+    const details = await Promise.allSettled(candidates.map(p => api.getPipeline(p.id)));
+    return details
+        .filter((result): result is PromiseFulfilledResult<Pipeline | null> => result.status === 'fulfilled')
+        .map(result => result.value)
+        .filter((p): p is Pipeline => !!p && p.stages.length > 0);
+}
+
+export function computeLocalAnalysis(pipeline: Pipeline, history: Pipeline[]): PipelineAnalysis {
+    // Stages and pipelines still running count up to now
+    const now = Date.now() / 1000;
+    const stageDuration = (stage: PipelineStage) => getStageDuration(stage, now) ?? 0;
+    const pipelineDuration = (p: Pipeline) => getPipelineDuration(p, now) ?? 0;
+
+    const stageBaselines = new Map<string, number>();
+    const stageNames = new Set(pipeline.stages.map(stage => stage.stageName));
+    stageNames.forEach(name => {
+        const durations = history
+            .flatMap(p => p.stages)
+            .filter(stage => stage.stageName === name && stage.status === StageStatus.SUCCEEDED)
+            .map(stageDuration);
+        if (durations.length > 0) {
+            stageBaselines.set(name, median(durations));
+        }
+    });
+
+    const total = pipelineDuration(pipeline);
+    const bottlenecks: AnalysisItem[] = [];
+    const failures: AnalysisItem[] = [];
+
+    pipeline.stages.forEach(stage => {
+        const duration = stageDuration(stage);
+
+        if (stage.status === StageStatus.FAILED) {
+            failures.push({
+                stage: stage.stageName,
+                duration,
+                issue: stage.errorMessage || 'Stage failed without an error message',
+                impact: 'high'
+            });
+        }
+
+        const baseline = stageBaselines.get(stage.stageName);
+        if (baseline !== undefined && baseline > 0) {
+            const ratio = duration / baseline;
+            if (ratio >= SLOWDOWN_MEDIUM && duration - baseline >= MIN_SLOWDOWN_SECONDS) {
+                bottlenecks.push({
+                    stage: stage.stageName,
+                    duration,
+                    issue: `Took ${formatDuration(duration)}, ${ratio.toFixed(1)}x its recent median of ${formatDuration(baseline)}`,
+                    impact: ratio >= SLOWDOWN_HIGH ? 'high' : 'medium'
+                });
+            }
+        } else if (total > 0) {
+            const share = duration / total;
+            if (share >= SHARE_MEDIUM && duration >= MIN_SLOWDOWN_SECONDS) {
+                bottlenecks.push({
+                    stage: stage.stageName,
+                    duration,
+                    issue: `Accounts for ${Math.round(share * 100)}% of the pipeline duration`,
+                    impact: share >= SHARE_HIGH ? 'high' : 'low'
+                });
+            }
+        }
+    });
+
+    const historicalTotals = history.map(pipelineDuration).filter(d => d > 0);
+    const baselineTotal = historicalTotals.length > 0 ? median(historicalTotals) : 0;
+
+    return sortAnalysis({
+        pipelineId: pipeline.id,
+        summary: buildSummary(pipeline, total, baselineTotal, history.length, bottlenecks, failures),
+        bottlenecks,
+        failures,
+        suggestions: buildSuggestions(pipeline, bottlenecks, failures, stageBaselines),
+        performanceScore: computeScore(total, baselineTotal, bottlenecks, failures)
+    });
+}
+
+function sortAnalysis(analysis: PipelineAnalysis): PipelineAnalysis {
+    const byImpact = (a: AnalysisItem, b: AnalysisItem) =>
+        (IMPACT_ORDER[a.impact] ?? 3) - (IMPACT_ORDER[b.impact] ?? 3) || b.duration - a.duration;
+
+    return {
+        ...analysis,
+        bottlenecks: [...(analysis.bottlenecks || [])].sort(byImpact),
+        failures: [...(analysis.failures || [])].sort(byImpact),
+        suggestions: analysis.suggestions || []
+    };
+}
+
+function buildSummary(
+    pipeline: Pipeline,
+    total: number,
+    baselineTotal: number,
+    historySize: number,
+    bottlenecks: AnalysisItem[],
+    failures: AnalysisItem[]
+): string {
+    let summary = `Pipeline ${pipeline.status.toLowerCase()} after ${formatDuration(total)}.`;
+
+    if (historySize === 0) {
+        summary += ' No recent successful runs were available for comparison.';
+    } else if (baselineTotal > 0) {
+        const change = ((total - baselineTotal) / baselineTotal) * 100;
+        const direction = change >= 0 ? 'slower' : 'faster';
+        summary += ` Compared with the last ${historySize} successful runs it was ${Math.abs(Math.round(change))}% ${direction}.`;
+    }
+
+    summary += ` Found ${bottlenecks.length} bottleneck${bottlenecks.length === 1 ? '' : 's'}` +
+        ` and ${failures.length} failure${failures.length === 1 ? '' : 's'}.`;
+    return summary;
+}
+
+function buildSuggestions(
+    pipeline: Pipeline,
+    bottlenecks: AnalysisItem[],
+    failures: AnalysisItem[],
+    stageBaselines: Map<string, number>
+): string[] {
+    const suggestions: string[] = [];
+
+    failures.forEach(failure => {
+        const changed = pipeline.trigger.commit ? `commit ${pipeline.trigger.commit.slice(0, 7)}` : 'this run';
+        suggestions.push(stageBaselines.has(failure.stage)
+            ? `${failure.stage} passed in recent runs; check what changed in ${changed}.`
+            : `Check the logs of ${failure.stage} for the cause of the failure.`);
+    });
+
+    bottlenecks.forEach(bottleneck => {
+        const name = bottleneck.stage.toLowerCase();
+        if (!stageBaselines.has(bottleneck.stage)) {
+            suggestions.push(`${bottleneck.stage} dominates the run; consider splitting it or running parts in parallel.`);
+        } else if (name.includes('build')) {
+            suggestions.push(`${bottleneck.stage} slowed down; check dependency and image layer caching.`);
+        } else if (name.includes('test')) {
+            suggestions.push(`${bottleneck.stage} slowed down; look for new slow tests or tests waiting on timeouts.`);
+        } else if (name.includes('deploy') || name.includes('sync') || name.includes('argocd')) {
+            suggestions.push(`${bottleneck.stage} slowed down; check rollout readiness probes and cluster capacity.`);
+        } else {
+            suggestions.push(`${bottleneck.stage} slowed down; compare its logs with a recent successful run.`);
+        }
+    });
+
+    if (suggestions.length === 0 && pipeline.status === PipelineStatus.SUCCEEDED) {
+        suggestions.push('No issues found; this run is in line with recent history.');
+    }
+
+    return suggestions;
+}
+
+function computeScore(total: number, baselineTotal: number, bottlenecks: AnalysisItem[], failures: AnalysisItem[]): number {
+    const penalties: { [impact: string]: number } = { high: 15, medium: 8, low: 3 };
+
+    let score = 100;
+    score -= failures.length * 25;
+    bottlenecks.forEach(item => score -= penalties[item.impact] || 0);
+    if (baselineTotal > 0 && total > baselineTotal) {
+        score -= Math.min(30, ((total - baselineTotal) / baselineTotal) * 30);
+    }
+
+    return Math.max(0, Math.min(100, Math.round(score)));
+}
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
@@ -0,0 +1,124 @@
+import { Pipeline, PipelineStage, getPipelineDuration, getStageDuration } from '../models/Pipeline';
+
+export interface DetailChange {
+    path: string;              // e.g. "image.tag" or "steps[2]"
+    kind: 'added' | 'removed' | 'changed';
+    before?: any;
+    after?: any;
+}
+
+export interface StageComparison {
+    stageName: string;
+    base?: PipelineStage;      // Missing when the stage only ran in the other pipeline
+    other?: PipelineStage;
+    durationDelta?: number;    // Seconds, other minus base; only when both ran
+    statusChanged: boolean;
+    errorChanged: boolean;
+    detailChanges: DetailChange[];
+}
+
+export interface TriggerDifference {
+    field: 'type' | 'user' | 'branch' | 'commit' | 'message';
+    base?: string;
+    other?: string;
+}
+
+export interface PipelineComparison {
+    base: Pipeline;
+    other: Pipeline;
+    durationDelta?: number;    // Seconds, other minus base
+    stages: StageComparison[];
+    triggerDifferences: TriggerDifference[];
+}
+
+const TRIGGER_FIELDS: TriggerDifference['field'][] = ['type', 'user', 'branch', 'commit', 'message'];
+
+/**
+ * Aligns two runs stage by stage (matched on stageName) and collects what
+ * differs. Stages are ordered as they ran in the base pipeline, followed by
+ * stages that only ran in the other one.
+ */
+export function comparePipelines(base: Pipeline, other: Pipeline): PipelineComparison {
+    const byStart = (a: PipelineStage, b: PipelineStage) => a.startedAt - b.startedAt;
+    const baseStages = [...(base.stages || [])].sort(byStart);
+    const otherStages = [...(other.stages || [])].sort(byStart);
+
+    const names = [...baseStages, ...otherStages]
+        .map(stage => stage.stageName)
+        .filter((name, index, all) => all.indexOf(name) === index);
+
+    const stages = names.map(stageName => compareStage(
+        stageName,
+        baseStages.find(stage => stage.stageName === stageName),
+        otherStages.find(stage => stage.stageName === stageName)
+    ));
+
+    const baseDuration = getPipelineDuration(base);
+    const otherDuration = getPipelineDuration(other);
+
+    return {
+        base,
+        other,
+        durationDelta: baseDuration !== undefined && otherDuration !== undefined
+            ? otherDuration - baseDuration
+            : undefined,
+        stages,
+        triggerDifferences: TRIGGER_FIELDS
+            .filter(field => (base.trigger[field] || '') !== (other.trigger[field] || ''))
+            .map(field => ({ field, base: base.trigger[field], other: other.trigger[field] }))
+    };
+}
+
+/** Walks two JSON values and lists every leaf that was added, removed or changed. */
+export function diffDetails(before: any, after: any, path: string = ''): DetailChange[] {
+    if (isEqual(before, after)) {
+        return [];
+    }
+    if (before === undefined) {
+        return [{ path: path || '(root)', kind: 'added', after }];
+    }
+    if (after === undefined) {
+        return [{ path: path || '(root)', kind: 'removed', before }];
+    }
+
+    const bothArrays = Array.isArray(before) && Array.isArray(after);
+    const bothObjects = isPlainObject(before) && isPlainObject(after);
+    if (!bothArrays && !bothObjects) {
+        return [{ path: path || '(root)', kind: 'changed', before, after }];
+    }
+
+    const keys = bothArrays
+        ? Array.from({ length: Math.max(before.length, after.length) }, (_, i) => i)
+        : Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+
+    return keys.flatMap(key => diffDetails(
+        before[key],
+        after[key],
+        bothArrays ? `${path}[${key}]` : path ? `${path}.${key}` : String(key)
+    ));
+}
+
+function compareStage(stageName: string, base?: PipelineStage, other?: PipelineStage): StageComparison {
+    const baseDuration = base && getStageDuration(base);
+    const otherDuration = other && getStageDuration(other);
+
+    return {
+        stageName,
+        base,
+        other,
+        durationDelta: baseDuration !== undefined && otherDuration !== undefined
+            ? otherDuration - baseDuration
+            : undefined,
+        statusChanged: !!base && !!other && base.status !== other.status,
+        errorChanged: !!base && !!other && (base.errorMessage || '') !== (other.errorMessage || ''),
+        detailChanges: base && other ? diffDetails(base.details ?? {}, other.details ?? {}) : []
+    };
+}
+
+function isPlainObject(value: any): boolean {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isEqual(a: any, b: any): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -1,19 +1,79 @@
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosAdapter, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import * as http from 'http';
 import * as vscode from 'vscode';
-import { Pipeline, PipelineStage, PipelineMetrics } from '../models/Pipeline';
+import { ThinkubeAuthenticationProvider } from '../auth/ThinkubeAuthenticationProvider';
+import { ConnectionProfile } from '../profiles/ProfileManager';
+import { Pipeline, PipelineMetrics, PipelineAnalysis, PipelineFilter, PipelinePage, StageLogChunk, TriggerOptions } from '../models/Pipeline';
+import { ApiResult, ControlHubError, toControlHubError } from './ControlHubError';
+import {
+    mapAnalysis,
+    mapApplications,
+    mapMetrics,
+    mapPipeline,
+    mapPipelinePage,
+    mapStageLogChunk,
+    mapStartedPipelineId
+} from './ResponseMapper';
+import { Transport, createAgent, isCertificateError } from './Transport';
+
+// GETs are retried after these delays (plus jitter) when the Control Hub is unreachable or restarting
+const RETRY_DELAYS = [500, 1500, 4000];
+const RETRY_STATUSES = [502, 503, 504];
+const MAX_CACHED_ETAGS = 200;
+
+export interface RequestOptions {
+    signal?: AbortSignal;      // Aborting rejects with a 'cancelled' ControlHubError
+}
+
+/** One GET shared by every caller asking for the same thing while it runs. */
+interface SharedRequest {
+    promise: Promise<any>;
+    controller: AbortController;
+    waiters: number;
+}
+
+export interface ControlHubAPIOptions {
+    adapter?: AxiosAdapter;                            // Replaces the HTTP transport, e.g. with mock mode's Control Hub
+    transport?: Transport;                             // TLS and proxy settings, also used by the WebSockets
+    onResponse?: (response: ObservedResponse) => void; // Sees every response, e.g. to record it
+}
+
+/** A response as seen by ControlHubAPIOptions.onResponse; status is 0 when the request got no response. */
+export interface ObservedResponse {
+    method: string;
+    url: string;
+    params?: { [name: string]: any };
+    status: number;
+    data?: any;
+    error?: string;
+}
 
 export class ControlHubAPI {
     private client: AxiosInstance;
     private baseURL: string;
+    private agent: http.Agent | undefined;
+    private simulated: boolean;
+    private inFlight = new Map<string, SharedRequest>();
+    // Last ETag and body per GET, so unchanged resources come back as an empty 304
+    private etags = new Map<string, { etag: string; data: any }>();
 
-    constructor() {
-        // Get base URL from settings or use default
-        const config = vscode.workspace.getConfiguration('thinkube-cicd');
-        this.baseURL = config.get('apiUrl', 'https://control.thinkube.com');
+    constructor(
+        private authProvider: ThinkubeAuthenticationProvider,
+        public readonly profile: ConnectionProfile,
+        options: ControlHubAPIOptions = {}
+    ) {
+        this.baseURL = profile.apiUrl;
+        this.simulated = !!options.adapter;
+        this.agent = options.transport && !options.adapter ? createAgent(options.transport, this.baseURL) : undefined;
         
         this.client = axios.create({
             baseURL: `${this.baseURL}/api/v1/cicd`,
             timeout: 30000,
+            adapter: options.adapter,
+            // The agent already goes through the configured proxy
+            httpAgent: this.agent,
+            httpsAgent: this.agent,
+            proxy: this.agent ? false : undefined,
             headers: {
                 'Content-Type': 'application/json'
             }
@@ -21,6 +81,39 @@ export class ControlHubAPI {
 
         // Add auth token if available
         this.setupAuthInterceptor();
+        if (options.onResponse) {
+            this.setupResponseObserver(options.onResponse);
+        }
+    }
+
+    private setupResponseObserver(onResponse: (response: ObservedResponse) => void) {
+        const observe = (config: InternalAxiosRequestConfig, status: number, data: any, error?: string) => {
+            try {
+                onResponse({
+                    method: (config.method || 'get').toUpperCase(),
+                    url: config.url || '',
+                    params: config.params,
+                    status,
+                    data,
+                    error
+                });
+            } catch (observerError) {
+                console.warn('Response observer failed:', observerError);
+            }
+        };
+
+        this.client.interceptors.response.use(
+            (response) => {
+                observe(response.config, response.status, response.data);
+                return response;
+            },
+            (error) => {
+                if (axios.isAxiosError(error) && error.config) {
+                    observe(error.config, error.response?.status ?? 0, error.response?.data, error.message);
+                }
+                return Promise.reject(error);
+            }
+        );
     }
 
     private setupAuthInterceptor() {
@@ -46,169 +139,275 @@ export class ControlHubAPI {
         );
     }
 
-    private async getAuthToken(): Promise<string | null> {
-        // Always get fresh config to ensure we have the latest token
-        const config = vscode.workspace.getConfiguration('thinkube-cicd');
-        const apiToken = config.get<string>('apiToken');
-        
-        if (apiToken && apiToken.startsWith('tk_')) {
-            return apiToken;
+    public async getAuthToken(): Promise<string | null> {
+        const apiToken = await this.authProvider.getToken(this.profile.name);
+        if (!apiToken) {
+            console.warn('No API token configured. Run "Configure API Token" to sign in.');
         }
-        
-        // No token configured
-        console.warn('No API token configured or token does not start with tk_');
-        return null;
+        return apiToken;
     }
     
-    public refreshConfig(): void {
-        // Update base URL if changed
-        const config = vscode.workspace.getConfiguration('thinkube-cicd');
-        const newBaseURL = config.get('apiUrl', 'https://control.thinkube.com');
-        
-        if (newBaseURL !== this.baseURL) {
-            this.baseURL = newBaseURL;
-            this.client.defaults.baseURL = `${this.baseURL}/api/v1/cicd`;
-        }
+    public getBaseUrl(): string {
+        return this.baseURL;
     }
 
-    async listPipelines(appName?: string, status?: string, limit: number = 20): Promise<Pipeline[]> {
-        try {
-            const response = await this.client.get('/pipelines', {
-                params: { app_name: appName, status, limit },
-                validateStatus: (status) => status === 200
-            });
-            // The API returns { pipelines: [...], total: ..., limit: ..., offset: ... }
-            const pipelines = response.data.pipelines || [];
-            
-            // Map API response to Pipeline interface
-            return pipelines.map((p: any) => ({
-                id: p.id,
-                appName: p.appName,
-                startTime: p.startedAt,
-                endTime: p.completedAt,
-                status: p.status,
-                stages: p.stages ? p.stages.map((s: any) => ({
-                    id: s.id,
-                    stageName: s.stageName,
-                    component: s.component,
-                    status: s.status,
-                    startedAt: s.startedAt,
-                    completedAt: s.completedAt,
-                    errorMessage: s.errorMessage,
-                    details: s.details,
-                    duration: s.duration
-                })) : [],
-                trigger: {
-                    type: p.triggerType,
-                    user: p.triggerUser,
-                    branch: p.branch,
-                    commit: p.commitSha,
-                    message: p.commitMessage
+    /** Whether an adapter answers instead of a Control Hub, as in mock mode and replays. */
+    public isSimulated(): boolean {
+        return this.simulated;
+    }
+
+    /** The agent WebSockets to this Control Hub must use, so they get the same TLS and proxy settings. */
+    public getAgent(): http.Agent | undefined {
+        return this.agent;
+    }
+
+    /**
+     * GETs a resource's body. Identical GETs in flight share one request,
+     * which is only aborted once every caller sharing it has aborted.
+     */
+    private get(path: string, params?: { [name: string]: any }, options: RequestOptions = {}): Promise<any> {
+        const signal = options.signal;
+        // Checked before joining, or a request nobody waits for would never be aborted
+        if (signal?.aborted) {
+            return Promise.reject(new ControlHubError('cancelled', 'Request cancelled'));
+        }
+
+        const key = requestKey(path, params);
+        let shared = this.inFlight.get(key);
+        if (!shared) {
+            const controller = new AbortController();
+            const request: SharedRequest = {
+                promise: this.getWithRetry(key, path, params, controller.signal),
+                controller,
+                waiters: 0
+            };
+            request.promise.then(
+                () => this.releaseInFlight(key, request),
+                () => this.releaseInFlight(key, request)
+            );
+            this.inFlight.set(key, request);
+            shared = request;
+        }
+
+        const request = shared;
+        request.waiters++;
+        return new Promise((resolve, reject) => {
+            const onAbort = () => {
+                if (--request.waiters === 0) {
+                    request.controller.abort();
+                    this.releaseInFlight(key, request);
+                }
+                reject(new ControlHubError('cancelled', 'Request cancelled'));
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+            request.promise.then(
+                value => {
+                    signal?.removeEventListener('abort', onAbort);
+                    resolve(value);
                 },
-                duration: p.duration,
-                stageCount: p.stageCount
-            }));
-        } catch (error: any) {
-            if (error.response?.status === 401) {
-                console.warn('CI/CD API requires authentication. Returning empty list.');
-                // TODO: Trigger VS Code authentication flow
-            } else {
-                console.error('Failed to list pipelines:', error.message);
+                error => {
+                    signal?.removeEventListener('abort', onAbort);
+                    reject(error);
+                }
+            );
+        });
+    }
+
+    private async getWithRetry(key: string, path: string, params: { [name: string]: any } | undefined, signal: AbortSignal): Promise<any> {
+        for (let attempt = 0; ; attempt++) {
+            const cached = this.etags.get(key);
+            try {
+                const response = await this.client.get(path, {
+                    params,
+                    signal,
+                    headers: cached ? { 'If-None-Match': cached.etag } : undefined,
+                    validateStatus: (status) => (status >= 200 && status < 300) || (status === 304 && !!cached)
+                });
+                if (response.status === 304 && cached) {
+                    return cached.data;
+                }
+
+                const etag = response.headers['etag'];
+                this.etags.delete(key);
+                if (typeof etag === 'string' && etag) {
+                    this.etags.set(key, { etag, data: response.data });
+                    if (this.etags.size > MAX_CACHED_ETAGS) {
+                        // Maps iterate in insertion order, so this is the least recently refreshed
+                        this.etags.delete(this.etags.keys().next().value!);
+                    }
+                }
+                return response.data;
+            } catch (error) {
+                if (attempt >= RETRY_DELAYS.length || signal.aborted || !isRetryable(error)) {
+                    throw error;
+                }
+                const delay = RETRY_DELAYS[attempt] * (0.8 + Math.random() * 0.4);
+                console.warn(`GET ${path} failed (${(error as Error).message}), retrying in ${Math.round(delay)}ms`);
+                await abortableDelay(delay, signal);
             }
-            return [];
         }
     }
 
-    async getPipeline(pipelineId: string): Promise<Pipeline | null> {
+    private releaseInFlight(key: string, request: SharedRequest) {
+        if (this.inFlight.get(key) === request) {
+            this.inFlight.delete(key);
+        }
+    }
+
+    /** Never throws: failures, including cancellation through options.signal, come back as the result's error. */
+    async listPipelines(
+        filter: PipelineFilter = {},
+        limit: number = 20,
+        offset: number = 0,
+        options: RequestOptions = {}
+    ): Promise<ApiResult<PipelinePage>> {
         try {
-            const response = await this.client.get(`/pipelines/${pipelineId}`);
-            const p = response.data;
-            
-            // Map API response to Pipeline interface
-            return {
-                id: p.id,
-                appName: p.appName,
-                startTime: p.startedAt,
-                endTime: p.completedAt,
-                status: p.status,
-                stages: p.stages.map((s: any) => ({
-                    id: s.id,
-                    stageName: s.stageName,
-                    component: s.component,
-                    status: s.status,
-                    startedAt: s.startedAt,
-                    completedAt: s.completedAt,
-                    errorMessage: s.errorMessage,
-                    details: s.details,
-                    duration: s.duration
-                })),
-                trigger: {
-                    type: p.triggerType,
-                    user: p.triggerUser,
-                    branch: p.branch,
-                    commit: p.commitSha,
-                    message: p.commitMessage
-                },
-                duration: p.duration,
-                stageCount: p.stageCount,
-                mermaidGantt: p.mermaidGantt  // Include backend-generated Mermaid diagram
-            };
+            const data = await this.get('/pipelines', {
+                app_name: filter.appName,
+                status: filter.status,
+                branch: filter.branch,
+                trigger_user: filter.triggerUser,
+                commit_sha: filter.commit,
+                limit,
+                offset
+            }, options);
+            return { ok: true, value: mapPipelinePage(data, limit, offset) };
         } catch (error) {
-            if (axios.isAxiosError(error)) {
-                if (error.response?.status === 404) {
-                    return null;
-                }
-                if (error.response?.status === 401) {
-                    console.error('Authentication failed for pipeline request. Token may be invalid or expired.');
-                    vscode.window.showErrorMessage('Authentication failed. Please check your API token configuration.');
-                }
+            return { ok: false, error: toControlHubError(error) };
+        }
+    }
+
+    async getPipeline(pipelineId: string, options: RequestOptions = {}): Promise<Pipeline | null> {
+        try {
+            return mapPipeline(await this.get(`/pipelines/${pipelineId}`, undefined, options));
+        } catch (error) {
+            const apiError = toControlHubError(error);
+            if (apiError.kind === 'notFound') {
+                return null;
             }
-            console.error('Failed to get pipeline:', error);
-            throw error;
+            if (apiError.kind === 'unauthorized') {
+                console.error('Authentication failed for pipeline request. Token may be invalid or expired.');
+                vscode.window.showErrorMessage('Authentication failed. Please check your API token configuration.');
+            }
+            console.error('Failed to get pipeline:', apiError.message);
+            throw apiError;
         }
     }
 
 
     async getMetrics(appName: string, period: string = '7d'): Promise<PipelineMetrics> {
         try {
-            const response = await this.client.get('/metrics', {
-                params: { app_name: appName, period }
+            return mapMetrics(await this.get('/metrics', { app_name: appName, period }));
+        } catch (error) {
+            const apiError = toControlHubError(error);
+            console.error('Failed to get metrics:', apiError.message);
+            throw apiError;
+        }
+    }
+
+    /**
+     * Returns null when the backend has no analysis endpoint, so callers can
+     * fall back to a local analysis.
+     */
+    async analyzePipeline(pipelineId: string): Promise<PipelineAnalysis | null> {
+        try {
+            return mapAnalysis(await this.get(`/pipelines/${pipelineId}/analysis`), pipelineId);
+        } catch (error) {
+            const apiError = toControlHubError(error);
+            if ([404, 405, 501].includes(apiError.status ?? 0)) {
+                return null;
+            }
+            console.error('Failed to analyze pipeline:', apiError.message);
+            throw apiError;
+        }
+    }
+
+    async triggerPipeline(appName: string, options: TriggerOptions): Promise<string> {
+        try {
+            const response = await this.client.post('/pipelines/trigger', {
+                app_name: appName,
+                branch: options.branch,
+                commit_sha: options.commit,
+                parameters: options.parameters || {}
             });
-            return response.data.metrics;
+            // The API returns the new pipeline, or at least its id
+            const pipelineId = mapStartedPipelineId(response.data);
+            if (!pipelineId) {
+                throw new ControlHubError('badResponse', 'Trigger response did not include a pipeline id');
+            }
+            return pipelineId;
         } catch (error) {
-            console.error('Failed to get metrics:', error);
-            throw error;
+            const apiError = toControlHubError(error);
+            if (apiError.kind === 'unauthorized') {
+                vscode.window.showErrorMessage('Authentication failed. Please check your API token configuration.');
+            }
+            console.error('Failed to trigger pipeline:', apiError.message);
+            throw apiError;
         }
     }
 
-    async listApplications(): Promise<string[]> {
+    async cancelPipeline(pipelineId: string): Promise<void> {
         try {
-            const response = await this.client.get('/applications');
-            return response.data;
+            await this.client.post(`/pipelines/${pipelineId}/cancel`);
         } catch (error) {
-            console.error('Failed to list applications:', error);
-            throw error;
+            const apiError = toControlHubError(error);
+            console.error('Failed to cancel pipeline:', apiError.message);
+            throw apiError;
         }
     }
 
-    connectWebSocket(pipelineId: string, onMessage: (data: any) => void): WebSocket {
-        const wsUrl = this.baseURL.replace(/^https?/, 'ws') + `/api/v1/cicd/ws/pipelines/${pipelineId}`;
-        const ws = new WebSocket(wsUrl);
+    /** Retries a failed pipeline and returns the id of the pipeline that runs the retry. */
+    async retryPipeline(pipelineId: string): Promise<string> {
+        try {
+            const response = await this.client.post(`/pipelines/${pipelineId}/retry`);
+            return mapStartedPipelineId(response.data) || pipelineId;
+        } catch (error) {
+            const apiError = toControlHubError(error);
+            console.error('Failed to retry pipeline:', apiError.message);
+            throw apiError;
+        }
+    }
 
-        ws.onmessage = (event) => {
-            try {
-                const data = JSON.parse(event.data);
-                onMessage(data);
-            } catch (error) {
-                console.error('Failed to parse WebSocket message:', error);
-            }
-        };
+    /** Re-runs a pipeline starting from the given stage and returns the id of the new run. */
+    async rerunFromStage(pipelineId: string, stageName: string): Promise<string> {
+        try {
+            const response = await this.client.post(`/pipelines/${pipelineId}/rerun`, {
+                from_stage: stageName
+            });
+            return mapStartedPipelineId(response.data) || pipelineId;
+        } catch (error) {
+            const apiError = toControlHubError(error);
+            console.error('Failed to re-run pipeline from stage:', apiError.message);
+            throw apiError;
+        }
+    }
 
-        ws.onerror = (error) => {
-            console.error('WebSocket error:', error);
-        };
+    /**
+     * Returns a stage's log output from the given character offset, so
+     * running stages can be followed by requesting from nextOffset.
+     */
+    async getStageLogs(pipelineId: string, stageName: string, offset: number = 0): Promise<StageLogChunk> {
+        try {
+            const data = await this.get(
+                `/pipelines/${pipelineId}/stages/${encodeURIComponent(stageName)}/logs`,
+                { offset }
+            );
+            return mapStageLogChunk(data, offset);
+        } catch (error) {
+            const apiError = toControlHubError(error);
+            console.error('Failed to get stage logs:', apiError.message);
+            throw apiError;
+        }
+    }
 
-        return ws;
+    async listApplications(): Promise<string[]> {
+        try {
+            return mapApplications(await this.get('/applications'));
+        } catch (error) {
+            const apiError = toControlHubError(error);
+            console.error('Failed to list applications:', apiError.message);
+            throw apiError;
+        }
     }
 
     async testConnection(): Promise<boolean> {
@@ -236,4 +435,38 @@ export class ControlHubAPI {
     }
 }
 
+/** Identifies a GET by path and the parameters that are actually sent. */
+function requestKey(path: string, params: { [name: string]: any } | undefined): string {
+    const sent = Object.entries(params || {})
+        .filter(([, value]) => value !== undefined && value !== null)
+        .sort(([a], [b]) => a.localeCompare(b));
+    return `${path} ${JSON.stringify(sent)}`;
+}
+
+/** Network failures and gateway errors are usually over by the next attempt, e.g. during a rollout. */
+function isRetryable(error: unknown): boolean {
+    if (axios.isCancel(error) || !axios.isAxiosError(error)) {
+        return false;
+    }
+    if (!error.response) {
+        // Timeouts already waited long enough, and an untrusted certificate stays untrusted
+        return error.code !== 'ECONNABORTED' && error.code !== 'ETIMEDOUT' && !isCertificateError(error.code);
+    }
+    return RETRY_STATUSES.includes(error.response.status);
+}
+
+function abortableDelay(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new ControlHubError('cancelled', 'Request cancelled'));
+        };
+        const timer = setTimeout(() => {
+            signal.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
 // 🤖 Generated with Claude
\ No newline at end of file
@@ -0,0 +1,86 @@
+import axios from 'axios';
+import { ResponseFormatError } from './ResponseMapper';
+import { isCertificateError } from './Transport';
+
+export type ControlHubErrorKind =
+    | 'unauthorized'           // 401 or 403: the token is missing, invalid or lacks access
+    | 'notFound'               // 404
+    | 'rejected'               // Any other 4xx
+    | 'server'                 // 5xx, after retries for GETs
+    | 'unreachable'            // No response at all, after retries for GETs
+    | 'untrustedCertificate'   // The server's certificate failed verification
+    | 'timeout'
+    | 'cancelled'              // Aborted by the caller, e.g. a superseded refresh
+    | 'badResponse';           // The response could not be understood
+
+/** Why a Control Hub request failed, so callers can react without digging through axios errors. */
+export class ControlHubError extends Error {
+    constructor(
+        readonly kind: ControlHubErrorKind,
+        message: string,
+        readonly status?: number
+    ) {
+        super(message);
+        this.name = 'ControlHubError';
+    }
+}
+
+/** For calls whose failures are expected often enough that callers should handle them, like listing. */
+export type ApiResult<T> =
+    | { ok: true; value: T }
+    | { ok: false; error: ControlHubError };
+
+export function toControlHubError(error: unknown): ControlHubError {
+    if (error instanceof ControlHubError) {
+        return error;
+    }
+    if (axios.isCancel(error)) {
+        return new ControlHubError('cancelled', 'Request cancelled');
+    }
+    if (error instanceof ResponseFormatError) {
+        return new ControlHubError('badResponse', `Unexpected response from the Control Hub: ${error.message}`);
+    }
+    if (!axios.isAxiosError(error)) {
+        return new ControlHubError('badResponse', `Unexpected response from the Control Hub: ${(error as Error)?.message ?? error}`);
+    }
+
+    const status = error.response?.status;
+    if (status === undefined) {
+        if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+            return new ControlHubError('timeout', 'The Control Hub did not respond in time');
+        }
+        if (isCertificateError(error.code)) {
+            return new ControlHubError(
+                'untrustedCertificate',
+                `The Control Hub's certificate is not trusted (${error.message}). Set thinkube-cicd.tls.caBundle to its CA.`
+            );
+        }
+        return new ControlHubError('unreachable', `Control Hub unreachable: ${error.message}`);
+    }
+    if (status === 401 || status === 403) {
+        return new ControlHubError('unauthorized', 'The Control Hub rejected the API token', status);
+    }
+    if (status === 404) {
+        return new ControlHubError('notFound', 'Not found on the Control Hub', status);
+    }
+    const detail = typeof error.response?.data?.detail === 'string' ? `: ${error.response.data.detail}` : '';
+    return status >= 500
+        ? new ControlHubError('server', `Control Hub error ${status}${detail}`, status)
+        : new ControlHubError('rejected', `The Control Hub rejected the request (${status})${detail}`, status);
+}
+
+/** A few words for where there's no room for the full message, like a tree item description. */
+export function describeControlHubError(error: ControlHubError): string {
+    switch (error.kind) {
+        case 'unauthorized':
+            return 'Sign-in required';
+        case 'badResponse':
+            return 'Unexpected response';
+        case 'rejected':
+            return 'Request rejected';
+        case 'untrustedCertificate':
+            return 'Certificate not trusted';
+        default:
+            return 'Control Hub unreachable';
+    }
+}
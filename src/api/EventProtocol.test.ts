@@ -0,0 +1,81 @@
+import test from 'node:test';
+import * as assert from 'node:assert/strict';
+import { PipelineStatus, StageStatus } from '../models/Pipeline';
+import { parsePipelineEvent } from './EventProtocol';
+
+function parseOk(message: unknown, pipelineId?: string) {
+    const result = parsePipelineEvent(message, pipelineId);
+    assert.ok(result.ok, result.ok ? '' : result.reason);
+    return result.event;
+}
+
+function parseError(message: unknown, pipelineId?: string): string {
+    const result = parsePipelineEvent(message, pipelineId);
+    assert.ok(!result.ok, 'expected the message to be rejected');
+    return result.reason;
+}
+
+test('parses typed pipeline and stage events', () => {
+    assert.deepEqual(parseOk({ type: 'pipeline_started', pipelineId: 'p1', appName: 'shop', branch: 'main', user: 'alice', timestamp: 1700000000 }), {
+        type: 'pipeline_started',
+        pipelineId: 'p1',
+        appName: 'shop',
+        timestamp: 1700000000,
+        branch: 'main',
+        triggerUser: 'alice'
+    });
+
+    const completed = parseOk({
+        type: 'stage_completed',
+        pipelineId: 'p1',
+        stageName: 'build',
+        status: 'failed',
+        error: 'exit 1',
+        duration: 42,
+        timestamp: 1700000000
+    });
+    assert.equal(completed.type, 'stage_completed');
+    assert.equal(completed.type === 'stage_completed' && completed.status, StageStatus.FAILED);
+    assert.equal(completed.type === 'stage_completed' && completed.errorMessage, 'exit 1');
+});
+
+test('maps event type aliases and the status they imply', () => {
+    const finished = parseOk({ type: 'pipeline_succeeded', pipelineId: 'p1' });
+    assert.equal(finished.type, 'pipeline_finished');
+    assert.equal(finished.type === 'pipeline_finished' && finished.status, PipelineStatus.SUCCEEDED);
+
+    assert.equal(parseOk({ eventType: 'log', pipelineId: 'p1', stageName: 'build', logs: 'line\n' }).type, 'log_chunk');
+    assert.equal(parseOk({ type: 'STAGE_FINISHED', pipelineId: 'p1', stageName: 'build', status: 'success' }).type, 'stage_completed');
+});
+
+test('classifies legacy messages from their status and stage', () => {
+    assert.equal(parseOk({ pipelineId: 'p1', status: 'running' }).type, 'pipeline_started');
+    assert.equal(parseOk({ pipelineId: 'p1', status: 'running', stageName: 'build' }).type, 'stage_started');
+    assert.equal(parseOk({ pipelineId: 'p1', status: 'completed', stageName: 'build' }).type, 'stage_completed');
+    assert.equal(parseOk({ pipelineId: 'p1', status: 'error' }).type, 'pipeline_finished');
+});
+
+test('converts times to epoch seconds', () => {
+    const event = parseOk({ type: 'stage_started', pipelineId: 'p1', stageName: 'build', startedAt: 1700000000500, timestamp: '2023-11-14T22:13:20Z' });
+    assert.equal(event.timestamp, 1700000000);
+    assert.equal(event.type === 'stage_started' && event.startedAt, 1700000000.5);
+});
+
+test('takes the pipeline from a per-pipeline socket', () => {
+    assert.equal(parseOk({ type: 'stage_progress', stageName: 'build' }, 'p7').pipelineId, 'p7');
+    assert.match(parseError({ type: 'stage_progress', pipelineId: 'p8', stageName: 'build' }, 'p7'), /does not match/);
+});
+
+test('rejects malformed messages with a reason', () => {
+    assert.equal(parseError('not an object'), 'not a JSON object');
+    assert.equal(parseError([]), 'not a JSON object');
+    assert.equal(parseError({ type: 'pipeline_started' }), 'missing pipelineId');
+    assert.equal(parseError({ type: 'deployment_done', pipelineId: 'p1' }), 'unknown event type "deployment_done"');
+    assert.equal(parseError({ pipelineId: 'p1' }), 'no event type or status');
+    assert.equal(parseError({ type: 'stage_started', pipelineId: 'p1' }), 'stage_started without stageName');
+    assert.equal(parseError({ type: 'pipeline_finished', pipelineId: 'p1', status: 'running' }), 'pipeline_finished with status running');
+    assert.equal(parseError({ type: 'log_chunk', pipelineId: 'p1', stageName: 'build', content: 3 }), 'log_chunk without string content');
+    assert.equal(parseError({ type: 'pipeline_started', pipelineId: 'p1', branch: 5 }), 'branch is not a string');
+    assert.equal(parseError({ type: 'stage_started', pipelineId: 'p1', stageName: 'build', startedAt: 'soon' }), 'startedAt is not a time');
+    assert.equal(parseError({ type: 'pipeline_finished', pipelineId: 'p1', status: 'failed', duration: '12' }), 'duration is not a number');
+});
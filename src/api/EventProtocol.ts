@@ -0,0 +1,215 @@
+import { PipelineStatus, StageStatus } from '../models/Pipeline';
+import { PipelineEvent, PipelineEventType, normalizeEventStatus } from '../models/PipelineEvent';
+import { toEpochSeconds } from './ResponseMapper';
+
+export type ParseResult =
+    | { ok: true; event: PipelineEvent }
+    | { ok: false; reason: string };
+
+// Names servers use for each event type, with the status some of them imply
+const EVENT_TYPES: { [name: string]: { type: PipelineEventType; status?: string } } = {
+    pipeline_started: { type: 'pipeline_started' },
+    pipeline_running: { type: 'pipeline_started' },
+    pipeline_finished: { type: 'pipeline_finished' },
+    pipeline_completed: { type: 'pipeline_finished' },
+    pipeline_succeeded: { type: 'pipeline_finished', status: PipelineStatus.SUCCEEDED },
+    pipeline_failed: { type: 'pipeline_finished', status: PipelineStatus.FAILED },
+    pipeline_cancelled: { type: 'pipeline_finished', status: PipelineStatus.CANCELLED },
+    stage_started: { type: 'stage_started' },
+    stage_progress: { type: 'stage_progress' },
+    stage_completed: { type: 'stage_completed' },
+    stage_finished: { type: 'stage_completed' },
+    stage_succeeded: { type: 'stage_completed', status: StageStatus.SUCCEEDED },
+    stage_failed: { type: 'stage_completed', status: StageStatus.FAILED },
+    stage_skipped: { type: 'stage_completed', status: StageStatus.SKIPPED },
+    log_chunk: { type: 'log_chunk' },
+    log: { type: 'log_chunk' }
+};
+
+const FINISHED_PIPELINE_STATUSES: string[] = [PipelineStatus.SUCCEEDED, PipelineStatus.FAILED, PipelineStatus.CANCELLED];
+const COMPLETED_STAGE_STATUSES: string[] = [StageStatus.SUCCEEDED, StageStatus.FAILED, StageStatus.SKIPPED];
+
+class InvalidEvent extends Error {}
+
+/**
+ * Validates a message received on a pipeline socket and turns it into a
+ * typed event. pipelineId is the pipeline a per-pipeline socket belongs to;
+ * multiplexed messages carry their own.
+ *
+ * Messages without a known `type` (or legacy `eventType`) are classified
+ * from their status and whether they name a stage.
+ */
+export function parsePipelineEvent(message: unknown, pipelineId?: string): ParseResult {
+    try {
+        return { ok: true, event: toEvent(message, pipelineId) };
+    } catch (error) {
+        if (error instanceof InvalidEvent) {
+            return { ok: false, reason: error.message };
+        }
+        throw error;
+    }
+}
+
+function toEvent(message: unknown, socketPipelineId: string | undefined): PipelineEvent {
+    if (!message || typeof message !== 'object' || Array.isArray(message)) {
+        throw new InvalidEvent('not a JSON object');
+    }
+    const raw = message as { [key: string]: unknown };
+
+    const pipelineId = optionalString(raw, 'pipelineId') ?? socketPipelineId;
+    if (!pipelineId) {
+        throw new InvalidEvent('missing pipelineId');
+    }
+    if (socketPipelineId && pipelineId !== socketPipelineId) {
+        throw new InvalidEvent(`pipelineId ${pipelineId} does not match the socket's pipeline ${socketPipelineId}`);
+    }
+
+    const rawStatus = optionalString(raw, 'status');
+    const status = normalizeEventStatus(rawStatus);
+    const stageName = optionalString(raw, 'stageName');
+    const kind = classify(raw, status, stageName);
+
+    const base = {
+        pipelineId,
+        appName: optionalString(raw, 'appName'),
+        timestamp: optionalTime(raw, 'timestamp') ?? Math.floor(Date.now() / 1000)
+    };
+
+    switch (kind.type) {
+        case 'pipeline_started':
+            return {
+                ...base,
+                type: 'pipeline_started',
+                branch: optionalString(raw, 'branch'),
+                triggerUser: optionalString(raw, 'triggerUser') ?? optionalString(raw, 'user')
+            };
+
+        case 'pipeline_finished': {
+            const finalStatus = kind.status || status;
+            if (!finalStatus || !FINISHED_PIPELINE_STATUSES.includes(finalStatus)) {
+                throw new InvalidEvent(`pipeline_finished with status ${rawStatus ?? '(none)'}`);
+            }
+            return {
+                ...base,
+                type: 'pipeline_finished',
+                status: finalStatus as PipelineStatus.SUCCEEDED | PipelineStatus.FAILED | PipelineStatus.CANCELLED,
+                completedAt: optionalTime(raw, 'completedAt'),
+                duration: optionalNumber(raw, 'duration'),
+                branch: optionalString(raw, 'branch'),
+                triggerUser: optionalString(raw, 'triggerUser') ?? optionalString(raw, 'user')
+            };
+        }
+
+        case 'log_chunk': {
+            const content = raw.content ?? raw.logs;
+            if (typeof content !== 'string') {
+                throw new InvalidEvent('log_chunk without string content');
+            }
+            return {
+                ...base,
+                type: 'log_chunk',
+                stageName: requireStageName(stageName, kind.type),
+                content,
+                offset: optionalNumber(raw, 'offset')
+            };
+        }
+    }
+
+    const stage = {
+        ...base,
+        stageName: requireStageName(stageName, kind.type),
+        stageId: optionalString(raw, 'stageId'),
+        component: optionalString(raw, 'component')
+    };
+
+    switch (kind.type) {
+        case 'stage_started':
+            return { ...stage, type: 'stage_started', startedAt: optionalTime(raw, 'startedAt') };
+
+        case 'stage_progress':
+            return { ...stage, type: 'stage_progress', message: optionalString(raw, 'message'), details: raw.details };
+
+        case 'stage_completed': {
+            const finalStatus = kind.status || status;
+            if (!finalStatus || !COMPLETED_STAGE_STATUSES.includes(finalStatus)) {
+                throw new InvalidEvent(`stage_completed with status ${rawStatus ?? '(none)'}`);
+            }
+            return {
+                ...stage,
+                type: 'stage_completed',
+                status: finalStatus as StageStatus.SUCCEEDED | StageStatus.FAILED | StageStatus.SKIPPED,
+                startedAt: optionalTime(raw, 'startedAt'),
+                completedAt: optionalTime(raw, 'completedAt'),
+                duration: optionalNumber(raw, 'duration'),
+                errorMessage: optionalString(raw, 'errorMessage') ?? optionalString(raw, 'error'),
+                details: raw.details
+            };
+        }
+    }
+}
+
+function classify(
+    raw: { [key: string]: unknown },
+    status: string | undefined,
+    stageName: string | undefined
+): { type: PipelineEventType; status?: string } {
+    const name = optionalString(raw, 'type') ?? optionalString(raw, 'eventType');
+    const known = name !== undefined ? EVENT_TYPES[name.toLowerCase()] : undefined;
+    if (known) {
+        return known;
+    }
+
+    // Legacy messages: infer from the status and whether a stage is named
+    if (status === PipelineStatus.RUNNING || status === PipelineStatus.PENDING) {
+        return { type: stageName ? 'stage_started' : 'pipeline_started' };
+    }
+    if (status && stageName && COMPLETED_STAGE_STATUSES.includes(status)) {
+        return { type: 'stage_completed' };
+    }
+    if (status && !stageName && FINISHED_PIPELINE_STATUSES.includes(status)) {
+        return { type: 'pipeline_finished' };
+    }
+    throw new InvalidEvent(name !== undefined ? `unknown event type "${name}"` : 'no event type or status');
+}
+
+function requireStageName(stageName: string | undefined, type: PipelineEventType): string {
+    if (!stageName) {
+        throw new InvalidEvent(`${type} without stageName`);
+    }
+    return stageName;
+}
+
+function optionalString(raw: { [key: string]: unknown }, key: string): string | undefined {
+    const value = raw[key];
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+    if (typeof value !== 'string') {
+        throw new InvalidEvent(`${key} is not a string`);
+    }
+    return value;
+}
+
+/** Times go through the same conversion as REST responses, so events and lists agree on units. */
+function optionalTime(raw: { [key: string]: unknown }, key: string): number | undefined {
+    const value = raw[key];
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+    const seconds = toEpochSeconds(value);
+    if (seconds === undefined) {
+        throw new InvalidEvent(`${key} is not a time`);
+    }
+    return seconds;
+}
+
+function optionalNumber(raw: { [key: string]: unknown }, key: string): number | undefined {
+    const value = raw[key];
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+    if (typeof value !== 'number' || !isFinite(value)) {
+        throw new InvalidEvent(`${key} is not a number`);
+    }
+    return value;
+}
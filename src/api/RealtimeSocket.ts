@@ -0,0 +1,230 @@
+import WebSocket from 'ws';
+import { EventEmitter } from 'events';
+
+export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
+
+export interface RealtimeSocketOptions {
+    url: string;
+    /** Called before every (re)connect so a rotated token is picked up. */
+    getHeaders: () => Promise<{ [name: string]: string }>;
+    /** Extra options for the underlying ws client (TLS etc.). */
+    clientOptions?: WebSocket.ClientOptions;
+    /** Whether a normal (1000) close from the server should be retried. Defaults to true. */
+    reconnectOnNormalClose?: boolean;
+}
+
+// Reconnect delays grow exponentially from BASE up to MAX, with jitter
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 60000;
+// Ping every HEARTBEAT_INTERVAL; no pong within HEARTBEAT_TIMEOUT means the socket is dead
+const HEARTBEAT_INTERVAL = 30000;
+const HEARTBEAT_TIMEOUT = 10000;
+
+/**
+ * A single WebSocket that keeps itself connected: exponential backoff with
+ * jitter between attempts, ping/pong heartbeats to detect dead connections,
+ * and auth headers on every attempt.
+ *
+ * Emits:
+ * - 'message' (data: any) for every parsed JSON message
+ * - 'malformed' (data: string, error: Error) for messages that aren't JSON
+ * - 'stateChange' (state: ConnectionState)
+ * - 'rejected' (statusCode: number) when the HTTP upgrade is refused
+ * - 'ended' when the server closed normally and no reconnect will follow
+ */
+export class RealtimeSocket extends EventEmitter {
+    private ws: WebSocket | null = null;
+    private state: ConnectionState = 'disconnected';
+    private attempts = 0;
+    private reconnectTimer: NodeJS.Timeout | null = null;
+    private heartbeatTimer: NodeJS.Timeout | null = null;
+    private pongTimer: NodeJS.Timeout | null = null;
+    private active = false;
+
+    constructor(private readonly options: RealtimeSocketOptions) {
+        super();
+    }
+
+    get url(): string {
+        return this.options.url;
+    }
+
+    getState(): ConnectionState {
+        return this.state;
+    }
+
+    isOpen(): boolean {
+        return this.ws !== null && this.ws.readyState === WebSocket.OPEN;
+    }
+
+    open(): void {
+        if (this.active) {
+            return;
+        }
+        this.active = true;
+        this.attempts = 0;
+        this.connect();
+    }
+
+    send(data: any): boolean {
+        if (!this.isOpen()) {
+            return false;
+        }
+        this.ws!.send(JSON.stringify(data));
+        return true;
+    }
+
+    close(reason: string = 'Closed by client'): void {
+        this.active = false;
+        this.clearTimers();
+        if (this.ws) {
+            this.ws.removeAllListeners();
+            // Keep a no-op error handler: errors after close must not crash the host
+            this.ws.on('error', () => undefined);
+            if (this.ws.readyState === WebSocket.CONNECTING) {
+                this.ws.terminate();
+            } else {
+                this.ws.close(1000, reason);
+            }
+            this.ws = null;
+        }
+        this.setState('disconnected');
+    }
+
+    private async connect(): Promise<void> {
+        this.setState(this.attempts === 0 ? 'connecting' : 'reconnecting');
+
+        let headers: { [name: string]: string } = {};
+        try {
+            headers = await this.options.getHeaders();
+        } catch (error) {
+            console.warn('Could not build WebSocket headers:', error);
+        }
+        if (!this.active) {
+            return;
+        }
+
+        const ws = new WebSocket(this.options.url, {
+            ...this.options.clientOptions,
+            headers
+        });
+        this.ws = ws;
+
+        ws.on('open', () => {
+            console.log(`WebSocket connected: ${this.options.url}`);
+            this.attempts = 0;
+            this.setState('connected');
+            this.startHeartbeat();
+        });
+
+        ws.on('message', (data) => {
+            let message: any;
+            try {
+                message = JSON.parse(data.toString());
+            } catch (error) {
+                console.error('Failed to parse WebSocket message:', error);
+                this.emit('malformed', data.toString(), error);
+                return;
+            }
+            this.emit('message', message);
+        });
+
+        ws.on('pong', () => {
+            if (this.pongTimer) {
+                clearTimeout(this.pongTimer);
+                this.pongTimer = null;
+            }
+        });
+
+        ws.on('unexpected-response', (_request, response) => {
+            console.warn(`WebSocket upgrade refused for ${this.options.url}: ${response.statusCode}`);
+            this.emit('rejected', response.statusCode);
+            ws.terminate();
+        });
+
+        ws.on('error', (error) => {
+            console.error(`WebSocket error for ${this.options.url}:`, error.message);
+        });
+
+        ws.on('close', (code, reason) => {
+            console.log(`WebSocket closed for ${this.options.url}: ${code} - ${reason}`);
+            this.stopHeartbeat();
+            if (this.ws === ws) {
+                this.ws = null;
+            }
+            if (this.active && code === 1000 && this.options.reconnectOnNormalClose === false) {
+                this.active = false;
+                this.setState('disconnected');
+                this.emit('ended');
+            } else if (this.active) {
+                this.scheduleReconnect();
+            } else {
+                this.setState('disconnected');
+            }
+        });
+    }
+
+    private scheduleReconnect(): void {
+        if (this.reconnectTimer) {
+            return;
+        }
+
+        // "Equal jitter": half the exponential delay plus a random share of the other half
+        const exponential = Math.min(RECONNECT_MAX_DELAY, RECONNECT_BASE_DELAY * Math.pow(2, this.attempts));
+        const delay = exponential / 2 + Math.random() * (exponential / 2);
+        this.attempts++;
+        this.setState('reconnecting');
+
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = null;
+            if (this.active) {
+                console.log(`Reconnecting to ${this.options.url} (attempt ${this.attempts})`);
+                this.connect();
+            }
+        }, delay);
+    }
+
+    private startHeartbeat(): void {
+        this.stopHeartbeat();
+        this.heartbeatTimer = setInterval(() => {
+            if (!this.isOpen()) {
+                return;
+            }
+            this.ws!.ping();
+            if (!this.pongTimer) {
+                this.pongTimer = setTimeout(() => {
+                    console.warn(`No heartbeat from ${this.options.url}, reconnecting`);
+                    this.pongTimer = null;
+                    // terminate() emits 'close', which schedules the reconnect
+                    this.ws?.terminate();
+                }, HEARTBEAT_TIMEOUT);
+            }
+        }, HEARTBEAT_INTERVAL);
+    }
+
+    private stopHeartbeat(): void {
+        if (this.heartbeatTimer) {
+            clearInterval(this.heartbeatTimer);
+            this.heartbeatTimer = null;
+        }
+        if (this.pongTimer) {
+            clearTimeout(this.pongTimer);
+            this.pongTimer = null;
+        }
+    }
+
+    private clearTimers(): void {
+        this.stopHeartbeat();
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+    }
+
+    private setState(state: ConnectionState): void {
+        if (this.state !== state) {
+            this.state = state;
+            this.emit('stateChange', state);
+        }
+    }
+}
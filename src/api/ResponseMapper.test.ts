@@ -0,0 +1,100 @@
+import test from 'node:test';
+import * as assert from 'node:assert/strict';
+import { PipelineStatus, StageStatus } from '../models/Pipeline';
+import { mapApplications, mapPipeline, mapPipelinePage, ResponseFormatError, toEpochSeconds } from './ResponseMapper';
+
+/** Runs fn without the warnings the mapper logs for entries it skips. */
+function quietly<T>(fn: () => T): T {
+    const warn = console.warn;
+    console.warn = () => undefined;
+    try {
+        return fn();
+    } finally {
+        console.warn = warn;
+    }
+}
+
+test('reads camelCase and snake_case fields alike', () => {
+    const camel = mapPipeline({
+        id: 'p1',
+        appName: 'shop',
+        startedAt: 1700000000,
+        completedAt: 1700000060,
+        status: 'SUCCEEDED',
+        triggerType: 'git_push',
+        commitSha: 'abc123',
+        branch: 'main'
+    });
+    const snake = mapPipeline({
+        pipeline_id: 'p1',
+        app_name: 'shop',
+        started_at: 1700000000,
+        completed_at: 1700000060,
+        status: 'succeeded',
+        trigger_type: 'git_push',
+        commit_sha: 'abc123',
+        branch: 'main'
+    });
+    assert.deepEqual(snake, camel);
+    assert.equal(camel.status, PipelineStatus.SUCCEEDED);
+    assert.equal(camel.trigger.type, 'git_push');
+    assert.equal(camel.trigger.commit, 'abc123');
+    assert.equal(camel.duration, 60);
+});
+
+test('throws ResponseFormatError for a pipeline it cannot identify', () => {
+    assert.throws(() => mapPipeline({ appName: 'shop' }), ResponseFormatError);
+    assert.throws(() => mapPipeline(null), ResponseFormatError);
+    assert.throws(() => mapPipeline('p1'), ResponseFormatError);
+});
+
+test('converts seconds, milliseconds and ISO strings to epoch seconds', () => {
+    assert.equal(toEpochSeconds(1700000000), 1700000000);
+    assert.equal(toEpochSeconds(1700000000500), 1700000000.5);
+    assert.equal(toEpochSeconds('1700000000'), 1700000000);
+    assert.equal(toEpochSeconds('2023-11-14T22:13:20Z'), 1700000000);
+    assert.equal(toEpochSeconds('yesterday'), undefined);
+    assert.equal(toEpochSeconds(0), undefined);
+    assert.equal(toEpochSeconds(null), undefined);
+});
+
+test('prefers start and end times over a reported duration', () => {
+    assert.equal(mapPipeline({ id: 'p1', startTime: 1700000000000, endTime: 1700000030000, duration: 30000 }).duration, 30);
+    assert.equal(mapPipeline({ id: 'p1', durationMs: 1500 }).duration, 1.5);
+    assert.equal(mapPipeline({ id: 'p1', duration_seconds: 12 }).duration, 12);
+    assert.equal(mapPipeline({ id: 'p1', duration: '7' }).duration, 7);
+    assert.equal(mapPipeline({ id: 'p1' }).duration, undefined);
+});
+
+test('maps stages and tolerates unknown statuses', () => {
+    const pipeline = quietly(() => mapPipeline({
+        id: 42,
+        status: 'queued',
+        stages: [
+            { name: 'build', status: 'success', start_time: 1700000000, end_time: 1700000010, error: null },
+            { stageName: 'deploy', status: 'cancelled' },
+            { status: 'running' }
+        ]
+    }));
+    assert.equal(pipeline.id, '42');
+    assert.equal(pipeline.status, PipelineStatus.PENDING);
+    assert.deepEqual(pipeline.stages.map(stage => [stage.id, stage.status, stage.duration]), [
+        ['42:build', StageStatus.SUCCEEDED, 10],
+        ['42:deploy', StageStatus.SKIPPED, undefined]
+    ]);
+    assert.equal(pipeline.stageCount, 2);
+});
+
+test('skips malformed entries of a pipeline page', () => {
+    const page = quietly(() => mapPipelinePage({ pipelines: [{ id: 'p1' }, { appName: 'no id' }, 'p3'], total: '10' }, 20, 0));
+    assert.deepEqual(page.pipelines.map(pipeline => pipeline.id), ['p1']);
+    assert.equal(page.total, 10);
+    assert.equal(page.limit, 20);
+    assert.equal(page.offset, 0);
+});
+
+test('reads application names from strings or objects', () => {
+    assert.deepEqual(mapApplications(['shop', 'blog']), ['shop', 'blog']);
+    assert.deepEqual(mapApplications({ applications: [{ name: 'shop' }, { app_name: 'blog' }, {}, null] }), ['shop', 'blog']);
+    assert.deepEqual(mapApplications(undefined), []);
+});
@@ -0,0 +1,297 @@
+import {
+    AnalysisItem,
+    EpochSeconds,
+    Pipeline,
+    PipelineAnalysis,
+    PipelineMetrics,
+    PipelinePage,
+    PipelineStage,
+    PipelineStatus,
+    PipelineTrigger,
+    Seconds,
+    StageLogChunk,
+    StageStatus
+} from '../models/Pipeline';
+import { normalizeEventStatus } from '../models/PipelineEvent';
+
+/**
+ * Maps Control Hub responses onto the models. Every REST call goes through
+ * here so fields are read one way: camelCase or snake_case keys, statuses
+ * in any case, and times as epoch seconds, epoch milliseconds or ISO
+ * strings. Missing optional fields are tolerated and extra ones ignored;
+ * a response missing what a model can't do without throws
+ * ResponseFormatError.
+ */
+
+export class ResponseFormatError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ResponseFormatError';
+    }
+}
+
+type Raw = { [key: string]: any };
+
+// Epoch seconds stay below this until the year 5138; larger values are milliseconds
+const MAX_EPOCH_SECONDS = 1e11;
+
+const PIPELINE_STATUSES = Object.values(PipelineStatus) as string[];
+const STAGE_STATUSES = Object.values(StageStatus) as string[];
+const TRIGGER_TYPES = ['manual', 'git_push', 'scheduled', 'api'];
+
+export function mapPipelinePage(data: any, limit: number, offset: number): PipelinePage {
+    const raw = asObject(data, 'pipeline list');
+    const items = Array.isArray(raw.pipelines) ? raw.pipelines : Array.isArray(data) ? data : [];
+
+    const pipelines: Pipeline[] = [];
+    for (const item of items) {
+        try {
+            pipelines.push(mapPipeline(item));
+        } catch (error) {
+            // One bad entry shouldn't hide the rest of the list
+            console.warn('Skipping pipeline the Control Hub sent in an unexpected format:', (error as Error).message);
+        }
+    }
+
+    return {
+        pipelines,
+        total: toNumber(raw.total) ?? pipelines.length,
+        limit: toNumber(raw.limit) ?? limit,
+        offset: toNumber(raw.offset) ?? offset
+    };
+}
+
+export function mapPipeline(data: any): Pipeline {
+    const raw = asObject(data, 'pipeline');
+    const id = toId(field(raw, 'id', 'pipelineId'));
+    if (!id) {
+        throw new ResponseFormatError('Pipeline without an id');
+    }
+
+    const startTime = toEpochSeconds(field(raw, 'startedAt', 'startTime', 'createdAt'));
+    const endTime = toEpochSeconds(field(raw, 'completedAt', 'endTime', 'finishedAt'));
+    const stages = Array.isArray(raw.stages) ? mapStages(raw.stages, id) : [];
+
+    return {
+        id,
+        appName: toText(field(raw, 'appName', 'application')) ?? '',
+        startTime: startTime ?? 0,
+        endTime,
+        status: toPipelineStatus(raw.status),
+        stages,
+        trigger: mapTrigger(raw),
+        duration: toDuration(raw, startTime, endTime),
+        stageCount: toNumber(field(raw, 'stageCount')) ?? (stages.length > 0 ? stages.length : undefined),
+        mermaidGantt: toText(field(raw, 'mermaidGantt'))
+    };
+}
+
+function mapStages(items: any[], pipelineId: string): PipelineStage[] {
+    const stages: PipelineStage[] = [];
+    for (const item of items) {
+        try {
+            stages.push(mapStage(item, pipelineId));
+        } catch (error) {
+            console.warn('Skipping stage the Control Hub sent in an unexpected format:', (error as Error).message);
+        }
+    }
+    return stages;
+}
+
+export function mapStage(data: any, pipelineId: string): PipelineStage {
+    const raw = asObject(data, 'stage');
+    const stageName = toText(field(raw, 'stageName', 'name'));
+    if (!stageName) {
+        throw new ResponseFormatError(`Stage of pipeline ${pipelineId} without a name`);
+    }
+
+    const startedAt = toEpochSeconds(field(raw, 'startedAt', 'startTime'));
+    const completedAt = toEpochSeconds(field(raw, 'completedAt', 'endTime', 'finishedAt'));
+
+    return {
+        id: toId(raw.id) ?? `${pipelineId}:${stageName}`,
+        stageName,
+        component: toText(raw.component) ?? '',
+        status: toStageStatus(raw.status),
+        startedAt: startedAt ?? 0,
+        completedAt,
+        errorMessage: toText(field(raw, 'errorMessage', 'error')),
+        details: raw.details ?? {},
+        duration: toDuration(raw, startedAt, completedAt)
+    };
+}
+
+export function mapAnalysis(data: any, pipelineId: string): PipelineAnalysis {
+    const raw = asObject(asObject(data, 'analysis').analysis ?? data, 'analysis');
+    const mapItems = (items: any): AnalysisItem[] => Array.isArray(items)
+        ? items.filter(item => item && typeof item === 'object').map(item => ({
+            stage: toText(field(item, 'stage', 'stageName')) ?? '',
+            duration: toNumber(item.duration) ?? 0,
+            issue: toText(item.issue) ?? '',
+            impact: ['high', 'medium', 'low'].includes(item.impact) ? item.impact : 'low'
+        }))
+        : [];
+
+    return {
+        pipelineId: toId(field(raw, 'pipelineId')) ?? pipelineId,
+        summary: toText(raw.summary) ?? '',
+        bottlenecks: mapItems(raw.bottlenecks),
+        failures: mapItems(raw.failures),
+        suggestions: Array.isArray(raw.suggestions) ? raw.suggestions.filter((s: any) => typeof s === 'string') : [],
+        performanceScore: toNumber(field(raw, 'performanceScore')) ?? 0
+    };
+}
+
+export function mapMetrics(data: any): PipelineMetrics {
+    const raw = asObject(asObject(data, 'metrics').metrics ?? data, 'metrics');
+    return {
+        appName: toText(field(raw, 'appName')) ?? '',
+        period: toText(raw.period) ?? '',
+        totalPipelines: toNumber(field(raw, 'totalPipelines')) ?? 0,
+        successRate: toNumber(field(raw, 'successRate')) ?? 0,
+        averageDuration: toSeconds(raw, 'averageDuration') ?? 0,
+        failureReasons: raw.failureReasons ?? raw.failure_reasons ?? {},
+        deploymentFrequency: toNumber(field(raw, 'deploymentFrequency')) ?? 0
+    };
+}
+
+export function mapStageLogChunk(data: any, offset: number): StageLogChunk {
+    const raw = asObject(data, 'stage logs');
+    const content = toText(field(raw, 'content', 'logs')) ?? '';
+    return {
+        content,
+        nextOffset: toNumber(field(raw, 'nextOffset')) ?? offset + content.length,
+        complete: typeof raw.complete === 'boolean' ? raw.complete : true
+    };
+}
+
+/** The id of the pipeline a trigger, retry or re-run started. */
+export function mapStartedPipelineId(data: any): string | undefined {
+    if (!data || typeof data !== 'object') {
+        return undefined;
+    }
+    return toId(field(data, 'pipelineId', 'id'));
+}
+
+/** Application names, from a plain list or a list of application objects. */
+export function mapApplications(data: any): string[] {
+    const items = Array.isArray(data) ? data : Array.isArray(data?.applications) ? data.applications : [];
+    return items
+        .map((item: any) => typeof item === 'string' ? item : toText(item && field(item, 'name', 'appName')))
+        .filter((name: string | undefined): name is string => !!name);
+}
+
+/** Epoch seconds from epoch seconds, epoch milliseconds or an ISO date string. */
+export function toEpochSeconds(value: any): EpochSeconds | undefined {
+    if (typeof value === 'number' && isFinite(value) && value > 0) {
+        return value > MAX_EPOCH_SECONDS ? value / 1000 : value;
+    }
+    if (typeof value === 'string' && value) {
+        const numeric = Number(value);
+        if (!isNaN(numeric)) {
+            return toEpochSeconds(numeric);
+        }
+        const parsed = Date.parse(value);
+        return isNaN(parsed) ? undefined : parsed / 1000;
+    }
+    return undefined;
+}
+
+/**
+ * Durations are taken from the start and end times when both are known, so
+ * a server reporting milliseconds can't be mistaken for seconds. Otherwise
+ * an explicit `durationMs` or `durationSeconds`, then `duration` as seconds.
+ */
+function toDuration(raw: Raw, start: EpochSeconds | undefined, end: EpochSeconds | undefined): Seconds | undefined {
+    if (start !== undefined && end !== undefined && end >= start) {
+        return end - start;
+    }
+    return toSeconds(raw, 'duration');
+}
+
+function toSeconds(raw: Raw, key: string): Seconds | undefined {
+    const milliseconds = toNumber(field(raw, `${key}Ms`));
+    if (milliseconds !== undefined) {
+        return milliseconds / 1000;
+    }
+    return toNumber(field(raw, `${key}Seconds`, key));
+}
+
+function mapTrigger(raw: Raw): PipelineTrigger {
+    const nested: Raw = raw.trigger && typeof raw.trigger === 'object' ? raw.trigger : {};
+    const type = (toText(field(raw, 'triggerType')) ?? toText(nested.type) ?? '').toLowerCase();
+
+    return {
+        type: (TRIGGER_TYPES.includes(type) ? type : type ? 'api' : 'manual') as PipelineTrigger['type'],
+        user: toText(field(raw, 'triggerUser')) ?? toText(nested.user),
+        branch: toText(raw.branch) ?? toText(nested.branch),
+        commit: toText(field(raw, 'commitSha', 'commit')) ?? toText(nested.commit),
+        message: toText(field(raw, 'commitMessage')) ?? toText(nested.message)
+    };
+}
+
+function toPipelineStatus(value: any): PipelineStatus {
+    const status = normalizeEventStatus(value);
+    if (status && PIPELINE_STATUSES.includes(status)) {
+        return status as PipelineStatus;
+    }
+    // e.g. QUEUED or a missing status
+    return PipelineStatus.PENDING;
+}
+
+function toStageStatus(value: any): StageStatus {
+    const status = normalizeEventStatus(value);
+    if (status && STAGE_STATUSES.includes(status)) {
+        return status as StageStatus;
+    }
+    if (status === PipelineStatus.CANCELLED) {
+        return StageStatus.SKIPPED;
+    }
+    return StageStatus.PENDING;
+}
+
+/** The first of the keys present, each looked up in camelCase and snake_case. */
+function field(raw: Raw, ...keys: string[]): any {
+    for (const key of keys) {
+        const value = raw[key] ?? raw[toSnakeCase(key)];
+        if (value !== undefined && value !== null) {
+            return value;
+        }
+    }
+    return undefined;
+}
+
+function toSnakeCase(key: string): string {
+    return key.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`);
+}
+
+function asObject(data: any, what: string): Raw {
+    if (!data || typeof data !== 'object') {
+        throw new ResponseFormatError(`Expected a ${what} object, got ${data === null ? 'null' : typeof data}`);
+    }
+    return data;
+}
+
+function toId(value: any): string | undefined {
+    if (typeof value === 'number' && isFinite(value)) {
+        return String(value);
+    }
+    return typeof value === 'string' && value ? value : undefined;
+}
+
+function toText(value: any): string | undefined {
+    if (typeof value === 'string') {
+        return value;
+    }
+    return typeof value === 'number' ? String(value) : undefined;
+}
+
+function toNumber(value: any): number | undefined {
+    if (typeof value === 'number' && isFinite(value)) {
+        return value;
+    }
+    if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+        return Number(value);
+    }
+    return undefined;
+}
@@ -0,0 +1,72 @@
+import test from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as http from 'http';
+import * as https from 'https';
+import type * as vscode from 'vscode';
+import { HttpsProxyAgent } from 'https-proxy-agent';
+import { Transport, createAgent, isCertificateError, loadTransport } from './Transport';
+
+const PROXY_ENV = ['HTTPS_PROXY', 'https_proxy', 'HTTP_PROXY', 'http_proxy', 'NO_PROXY', 'no_proxy'];
+
+function transport(noProxy: string[], proxy: string | null = 'http://proxy.corp:3128'): Transport {
+    return { tls: { rejectUnauthorized: true }, insecure: false, proxy: proxy ?? undefined, proxyStrictSSL: true, noProxy };
+}
+
+function configuration(values: { [key: string]: unknown }): vscode.WorkspaceConfiguration {
+    return { get: (key: string, defaultValue?: unknown) => values[key] ?? defaultValue } as vscode.WorkspaceConfiguration;
+}
+
+function isProxied(agent: http.Agent): boolean {
+    return agent instanceof HttpsProxyAgent;
+}
+
+test('goes through the proxy unless the host is bypassed', () => {
+    assert.equal(isProxied(createAgent(transport([]), 'https://hub.example.com')), true);
+    assert.equal(isProxied(createAgent(transport(['hub.example.com']), 'https://HUB.example.com/api')), false);
+    assert.equal(isProxied(createAgent(transport(['example.com']), 'https://hub.example.com')), false);
+    assert.equal(isProxied(createAgent(transport(['.example.com']), 'https://hub.example.com')), false);
+    assert.equal(isProxied(createAgent(transport(['*.example.com']), 'https://example.com')), false);
+    assert.equal(isProxied(createAgent(transport(['*']), 'https://hub.example.com')), false);
+    assert.equal(isProxied(createAgent(transport(['ample.com']), 'https://hub.example.com')), true);
+    assert.equal(isProxied(createAgent(transport(['example.com']), 'https://example.com.evil.net')), true);
+});
+
+test('connects directly without a proxy', () => {
+    const direct = createAgent(transport([], null), 'https://hub.example.com');
+    assert.ok(direct instanceof https.Agent);
+    assert.equal(direct.options.rejectUnauthorized, true);
+    assert.ok(!(createAgent(transport([], null), 'http://hub.example.com') instanceof https.Agent));
+});
+
+test('reads proxy and TLS settings and reports unreadable files', async () => {
+    const saved = PROXY_ENV.map(name => [name, process.env[name]] as const);
+    PROXY_ENV.forEach(name => delete process.env[name]);
+    process.env.NO_PROXY = 'localhost, .internal';
+    try {
+        const { transport: loaded, problems } = await loadTransport(
+            configuration({ mode: 'insecure', caBundle: '/nonexistent/ca.pem' }),
+            configuration({ proxy: ' http://proxy.corp:3128 ', proxyStrictSSL: false, noProxy: ['Hub.Example.com', ' '] })
+        );
+        assert.equal(loaded.insecure, true);
+        assert.equal(loaded.tls.rejectUnauthorized, false);
+        assert.equal(loaded.tls.ca, undefined);
+        assert.equal(loaded.proxy, 'http://proxy.corp:3128');
+        assert.equal(loaded.proxyStrictSSL, false);
+        assert.deepEqual(loaded.noProxy, ['hub.example.com', 'localhost', '.internal']);
+        assert.equal(problems.length, 1);
+        assert.match(problems[0], /^Could not read thinkube-cicd\.tls\.caBundle \(\/nonexistent\/ca\.pem\)/);
+
+        process.env.HTTPS_PROXY = 'http://env-proxy:8080';
+        const fromEnv = (await loadTransport(configuration({}), configuration({}))).transport;
+        assert.equal(fromEnv.proxy, 'http://env-proxy:8080');
+        assert.equal(fromEnv.tls.rejectUnauthorized, true);
+    } finally {
+        saved.forEach(([name, value]) => value === undefined ? delete process.env[name] : process.env[name] = value);
+    }
+});
+
+test('recognizes certificate errors', () => {
+    assert.equal(isCertificateError('SELF_SIGNED_CERT_IN_CHAIN'), true);
+    assert.equal(isCertificateError('ECONNREFUSED'), false);
+    assert.equal(isCertificateError(undefined), false);
+});
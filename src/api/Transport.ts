@@ -0,0 +1,129 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import * as os from 'os';
+import * as tls from 'tls';
+import type * as vscode from 'vscode';
+import { HttpsProxyAgent } from 'https-proxy-agent';
+
+export type TlsMode = 'strict' | 'insecure';
+
+/**
+ * How connections to a Control Hub are made, the same for REST requests
+ * and WebSockets: the certificates to trust and present, whether the
+ * server's certificate is verified, and the proxy to go through.
+ */
+export interface Transport {
+    tls: tls.ConnectionOptions;    // ca, cert, key and rejectUnauthorized for the Control Hub
+    insecure: boolean;
+    proxy?: string;                // VS Code's http.proxy, else HTTPS_PROXY/HTTP_PROXY
+    proxyStrictSSL: boolean;       // Whether an https proxy's own certificate is verified
+    noProxy: string[];             // Hosts (or .domain suffixes) reached directly
+}
+
+// Node's codes for server certificates that failed verification; retrying won't help
+const CERTIFICATE_ERROR_CODES = [
+    'UNABLE_TO_GET_ISSUER_CERT',
+    'UNABLE_TO_GET_ISSUER_CERT_LOCALLY',
+    'UNABLE_TO_VERIFY_LEAF_SIGNATURE',
+    'SELF_SIGNED_CERT_IN_CHAIN',
+    'DEPTH_ZERO_SELF_SIGNED_CERT',
+    'CERT_HAS_EXPIRED',
+    'CERT_NOT_YET_VALID',
+    'CERT_UNTRUSTED',
+    'CERT_REVOKED',
+    'ERR_TLS_CERT_ALTNAME_INVALID'
+];
+
+export function isCertificateError(code: string | undefined): boolean {
+    return code !== undefined && CERTIFICATE_ERROR_CODES.includes(code);
+}
+
+/**
+ * Reads the thinkube-cicd.tls settings (config), the files they point to,
+ * and VS Code's proxy settings (httpConfig). Files that can't be read are
+ * left out and reported in problems, so a typo doesn't stop every connection.
+ */
+export async function loadTransport(
+    config: vscode.WorkspaceConfiguration,
+    httpConfig: vscode.WorkspaceConfiguration
+): Promise<{ transport: Transport; problems: string[] }> {
+    const problems: string[] = [];
+
+    const read = async (setting: string): Promise<string | undefined> => {
+        const file = config.get<string>(setting, '').trim();
+        if (!file) {
+            return undefined;
+        }
+        try {
+            return await fs.promises.readFile(file.replace(/^~(?=$|[\\/])/, os.homedir()), 'utf8');
+        } catch (error) {
+            problems.push(`Could not read thinkube-cicd.tls.${setting} (${file}): ${(error as Error).message}`);
+            return undefined;
+        }
+    };
+    const caBundle = await read('caBundle');
+    const cert = await read('clientCertificate');
+    // The key may sit in the same PEM file as the certificate
+    const key = (await read('clientKey')) ?? cert;
+
+    const insecure = config.get<TlsMode>('mode', 'strict') === 'insecure';
+    const env = process.env;
+    const noProxy = [
+        ...httpConfig.get<string[]>('noProxy', []),
+        ...(env.NO_PROXY || env.no_proxy || '').split(',')
+    ];
+
+    return {
+        transport: {
+            tls: {
+                // ca replaces Node's built-in roots, so keep those next to the private CA
+                ca: caBundle ? [...tls.rootCertificates, caBundle] : undefined,
+                cert,
+                key: cert ? key : undefined,
+                rejectUnauthorized: !insecure
+            },
+            insecure,
+            proxy: httpConfig.get<string>('proxy', '').trim() ||
+                env.HTTPS_PROXY || env.https_proxy || env.HTTP_PROXY || env.http_proxy || undefined,
+            proxyStrictSSL: httpConfig.get<boolean>('proxyStrictSSL', true),
+            noProxy: noProxy.map(host => host.trim().toLowerCase()).filter(host => host.length > 0)
+        },
+        problems
+    };
+}
+
+/** The agent for every connection to the Control Hub at url, tunnelling through the proxy unless it's bypassed. */
+export function createAgent(transport: Transport, url: string): http.Agent {
+    const target = new URL(url);
+    if (transport.proxy && !bypassesProxy(transport.noProxy, target.hostname.toLowerCase())) {
+        return new TlsProxyAgent(transport.proxy, transport.proxyStrictSSL, transport.tls);
+    }
+    return target.protocol === 'https:' ? new https.Agent(transport.tls) : new http.Agent();
+}
+
+function bypassesProxy(noProxy: string[], host: string): boolean {
+    return noProxy.some(entry => {
+        if (entry === '*') {
+            return true;
+        }
+        const suffix = entry.replace(/^\*?\./, '');
+        return host === suffix || host.endsWith(`.${suffix}`);
+    });
+}
+
+/**
+ * HttpsProxyAgent only applies its constructor options to the proxy
+ * connection; the TLS connection to the Control Hub inside the tunnel
+ * takes them from each request, which axios doesn't set.
+ */
+class TlsProxyAgent extends HttpsProxyAgent<string> {
+    constructor(proxy: string, proxyStrictSSL: boolean, private readonly targetTls: tls.ConnectionOptions) {
+        super(proxy, { rejectUnauthorized: proxyStrictSSL });
+    }
+
+    connect(req: http.ClientRequest, opts: Parameters<HttpsProxyAgent<string>['connect']>[1]): Promise<net.Socket> {
+        return super.connect(req, { ...opts, ...this.targetTls });
+    }
+}
@@ -1,177 +1,325 @@
 import * as vscode from 'vscode';
-import WebSocket from 'ws';
 import { EventEmitter } from 'events';
 import { ControlHubAPI } from './ControlHubAPI';
+import { ConnectionState, RealtimeSocket } from './RealtimeSocket';
+import { parsePipelineEvent } from './EventProtocol';
 
-export class WebSocketManager extends EventEmitter {
-    private websockets: Map<string, WebSocket> = new Map();
+export { ConnectionState } from './RealtimeSocket';
+
+// Servers that support multiplexing accept subscribe/unsubscribe messages here
+const MULTIPLEX_PATH = '/api/v1/cicd/ws/pipelines';
+// Older servers only offer one socket per pipeline
+const PIPELINE_PATH = '/api/v1/cicd/ws/pipelines/';
+// The feed of every pipeline's events, subscribed to or opened at PIPELINE_PATH like a pipeline
+const ALL_PIPELINES = 'all';
+// How long to wait for a subscribe acknowledgement before assuming no multiplexing
+const SUBSCRIBE_ACK_TIMEOUT = 5000;
+
+type TransportMode = 'unknown' | 'multiplex' | 'perPipeline';
+
+/**
+ * The extension's single realtime connection layer. Pipeline subscriptions
+ * are multiplexed over one socket when the server supports it, otherwise
+ * each tracked pipeline gets its own socket. Either way every socket
+ * reconnects with backoff and is kept alive with heartbeats. The feed of
+ * all pipelines is followed as well, for the start and end of runs that
+ * aren't tracked, such as ones started after the pipeline list was loaded.
+ *
+ * Emits 'pipelineEvent' with a validated PipelineEvent. Messages that fail
+ * validation are logged to the diagnostics channel and dropped. Every
+ * message is first emitted as 'rawMessage' (message, pipelineId), as
+ * received, so it can be recorded.
+ */
+export class WebSocketManager extends EventEmitter implements vscode.Disposable {
     private api: ControlHubAPI;
-    private reconnectTimers: Map<string, NodeJS.Timeout> = new Map();
-    private isActive: boolean = true;
-    private globalWebSocket: WebSocket | null = null;
-    private globalReconnectTimer: NodeJS.Timeout | null = null;
+    protected subscriptions = new Set<string>();
+    private mode: TransportMode = 'unknown';
+    private multiplexSocket: RealtimeSocket | null = null;
+    private pipelineSockets: Map<string, RealtimeSocket> = new Map();
+    private allPipelinesSocket: RealtimeSocket | null = null;
+    private ackTimer: NodeJS.Timeout | null = null;
+    protected isActive: boolean = false;
+    private connectionState: ConnectionState = 'disconnected';
 
-    constructor(api: ControlHubAPI) {
+    private _onDidChangeConnectionState = new vscode.EventEmitter<ConnectionState>();
+    readonly onDidChangeConnectionState = this._onDidChangeConnectionState.event;
+
+    constructor(api: ControlHubAPI, private readonly diagnostics: vscode.LogOutputChannel) {
         super();
         this.api = api;
     }
 
     async connect(): Promise<void> {
+        if (this.isActive) {
+            return;
+        }
+        this.isActive = true;
         console.log('WebSocket manager initialized');
-        // Connect to global event stream
-        await this.connectToGlobalStream();
+
+        if (this.mode === 'perPipeline') {
+            this.openAllPipelinesSocket();
+            this.subscriptions.forEach(pipelineId => this.openPipelineSocket(pipelineId));
+        } else {
+            this.openMultiplexSocket();
+        }
+    }
+
+    getConnectionState(): ConnectionState {
+        return this.connectionState;
     }
 
     trackPipeline(pipelineId: string): void {
-        if (this.websockets.has(pipelineId)) {
+        if (this.subscriptions.has(pipelineId)) {
             return; // Already tracking
         }
+        this.subscriptions.add(pipelineId);
 
-        this.connectToPipeline(pipelineId);
-    }
-
-    private async connectToPipeline(pipelineId: string): Promise<void> {
-        try {
-            // Get base URL from settings
-            const config = vscode.workspace.getConfiguration('thinkube-cicd');
-            const baseUrl = config.get('apiUrl', 'https://control.thinkube.com');
-            
-            // Convert to WebSocket URL (use wss for https)
-            const wsUrl = baseUrl.replace(/^https/, 'wss').replace(/^http/, 'ws');
-            
-            // Server WebSocket is at /api/v1/cicd/ws/pipelines/{id} because the cicd router has /cicd prefix
-            // Also, server currently has NO authentication on WebSocket
-            const fullUrl = `${wsUrl}/api/v1/cicd/ws/pipelines/${pipelineId}`;
-            
-            // Create WebSocket (server doesn't check auth currently)
-            const ws = new WebSocket(fullUrl, {
-                rejectUnauthorized: false // For self-signed certificates
-            });
-
-            ws.on('open', () => {
-                console.log(`WebSocket connected for pipeline ${pipelineId}`);
-                this.websockets.set(pipelineId, ws);
-                
-                // Clear any reconnect timer
-                const timer = this.reconnectTimers.get(pipelineId);
-                if (timer) {
-                    clearTimeout(timer);
-                    this.reconnectTimers.delete(pipelineId);
-                }
-            });
-
-            ws.on('message', (data) => {
-                try {
-                    const event = JSON.parse(data.toString());
-                    console.log(`Received event for pipeline ${pipelineId}:`, event);
-                    
-                    // Emit the event for the extension to handle
-                    this.emit('pipelineEvent', {
-                        pipelineId,
-                        ...event
-                    });
-                } catch (error) {
-                    console.error('Failed to parse WebSocket message:', error);
-                }
-            });
-
-            ws.on('error', (error) => {
-                console.error(`WebSocket error for pipeline ${pipelineId}:`, error);
-            });
-
-            ws.on('close', (code, reason) => {
-                console.log(`WebSocket closed for pipeline ${pipelineId}: ${code} - ${reason}`);
-                this.websockets.delete(pipelineId);
-                
-                // Attempt to reconnect after a delay if still active
-                if (this.isActive && code !== 1000) { // 1000 = normal closure
-                    const timer = setTimeout(() => {
-                        if (this.isActive) {
-                            console.log(`Attempting to reconnect to pipeline ${pipelineId}`);
-                            this.connectToPipeline(pipelineId);
-                        }
-                    }, 5000); // Reconnect after 5 seconds
-                    
-                    this.reconnectTimers.set(pipelineId, timer);
-                }
-            });
-
-        } catch (error) {
-            console.error(`Failed to connect WebSocket for pipeline ${pipelineId}:`, error);
+        if (!this.isActive) {
+            return; // Subscribed once connect() is called
         }
-    }
-
-    private async getAuthToken(): Promise<string | null> {
-        const config = vscode.workspace.getConfiguration('thinkube-cicd');
-        const apiToken = config.get<string>('apiToken');
-        
-        if (apiToken && apiToken.startsWith('tk_')) {
-            return apiToken;
+        if (this.mode === 'perPipeline') {
+            this.openPipelineSocket(pipelineId);
+        } else {
+            this.subscribe(pipelineId);
         }
-        
-        return null;
     }
 
-    private async connectToGlobalStream(): Promise<void> {
-        try {
-            // Get base URL from settings
-            const config = vscode.workspace.getConfiguration('thinkube-cicd');
-            const baseUrl = config.get('apiUrl', 'https://control.thinkube.com');
-            
-            // Convert to WebSocket URL (use wss for https)
-            const wsUrl = baseUrl.replace(/^https/, 'wss').replace(/^http/, 'ws');
-            
-            // Global events endpoint is not implemented in server
-            // For now, disable global WebSocket connection
-            console.log('Global WebSocket endpoint not implemented on server - skipping connection');
+    stopTrackingPipeline(pipelineId: string): void {
+        if (!this.subscriptions.delete(pipelineId)) {
             return;
+        }
+
+        this.multiplexSocket?.send({ type: 'unsubscribe', pipelineId });
 
-        } catch (error) {
-            console.error('Failed to connect global WebSocket:', error);
+        const socket = this.pipelineSockets.get(pipelineId);
+        if (socket) {
+            socket.close('No longer tracking');
+            this.pipelineSockets.delete(pipelineId);
+            this.updateConnectionState();
         }
     }
 
     disconnect(): void {
         this.isActive = false;
-        
-        // Clear global reconnect timer
-        if (this.globalReconnectTimer) {
-            clearTimeout(this.globalReconnectTimer);
-            this.globalReconnectTimer = null;
+        this.clearAckTimer();
+
+        if (this.multiplexSocket) {
+            this.multiplexSocket.close('Extension deactivating');
+            this.multiplexSocket = null;
         }
-        
-        // Close global WebSocket
-        if (this.globalWebSocket) {
-            this.globalWebSocket.close(1000, 'Extension deactivating');
-            this.globalWebSocket = null;
+
+        this.allPipelinesSocket?.close('Extension deactivating');
+        this.allPipelinesSocket = null;
+        for (const socket of this.pipelineSockets.values()) {
+            socket.close('Extension deactivating');
         }
-        
-        // Clear all reconnect timers
-        for (const timer of this.reconnectTimers.values()) {
-            clearTimeout(timer);
+        this.pipelineSockets.clear();
+        this.updateConnectionState();
+    }
+
+    /** Disconnects and drops every listener; the manager can't be used afterwards. */
+    dispose(): void {
+        this.disconnect();
+        this.removeAllListeners();
+        this._onDidChangeConnectionState.dispose();
+    }
+
+    private openMultiplexSocket(): void {
+        const socket = this.createSocket(MULTIPLEX_PATH);
+        this.multiplexSocket = socket;
+
+        socket.on('stateChange', (state: ConnectionState) => {
+            if (state === 'connected') {
+                // (Re)subscribe everything after each connect
+                this.subscribe(ALL_PIPELINES);
+                this.subscriptions.forEach(pipelineId => this.subscribe(pipelineId));
+            }
+            this.updateConnectionState();
+        });
+
+        socket.on('rejected', (statusCode: number) => {
+            // Auth failures are retried; anything else means the endpoint doesn't exist
+            if (this.mode === 'unknown' && statusCode !== 401 && statusCode !== 403) {
+                this.fallBackToPerPipeline();
+            }
+        });
+
+        socket.on('message', (message: any) => {
+            if (message && message.type === 'subscribed') {
+                this.mode = 'multiplex';
+                this.clearAckTimer();
+                return;
+            }
+            if (message && message.type === 'unsubscribed') {
+                return;
+            }
+            if (!this.isTracked(message) && !isRunStartOrEnd(message)) {
+                return; // From the feed of all pipelines, or sent before an unsubscribe took effect
+            }
+            this.emitPipelineEvent(message);
+        });
+        socket.on('malformed', (data: string, error: Error) => this.logDropped(socket.url, `invalid JSON (${error.message})`, data));
+
+        socket.open();
+    }
+
+    private subscribe(pipelineId: string): void {
+        if (!this.multiplexSocket || !this.multiplexSocket.send({ type: 'subscribe', pipelineId })) {
+            return; // Sent when the socket (re)connects
         }
-        this.reconnectTimers.clear();
-        
-        // Close all WebSocket connections
-        for (const [pipelineId, ws] of this.websockets.entries()) {
-            ws.close(1000, 'Extension deactivating');
+
+        if (this.mode === 'unknown' && !this.ackTimer) {
+            this.ackTimer = setTimeout(() => {
+                this.ackTimer = null;
+                if (this.mode === 'unknown') {
+                    console.log('Server did not acknowledge subscription, using one socket per pipeline');
+                    this.fallBackToPerPipeline();
+                }
+            }, SUBSCRIBE_ACK_TIMEOUT);
         }
-        this.websockets.clear();
     }
 
-    stopTrackingPipeline(pipelineId: string): void {
-        const ws = this.websockets.get(pipelineId);
-        if (ws) {
-            ws.close(1000, 'No longer tracking');
-            this.websockets.delete(pipelineId);
+    private fallBackToPerPipeline(): void {
+        this.mode = 'perPipeline';
+        this.clearAckTimer();
+
+        if (this.multiplexSocket) {
+            this.multiplexSocket.close('Multiplexing not supported');
+            this.multiplexSocket = null;
+        }
+
+        if (this.isActive) {
+            this.openAllPipelinesSocket();
+            this.subscriptions.forEach(pipelineId => this.openPipelineSocket(pipelineId));
         }
-        
-        const timer = this.reconnectTimers.get(pipelineId);
-        if (timer) {
-            clearTimeout(timer);
-            this.reconnectTimers.delete(pipelineId);
+        this.updateConnectionState();
+    }
+
+    private openAllPipelinesSocket(): void {
+        if (this.allPipelinesSocket) {
+            return;
+        }
+        const socket = this.createSocket(`${PIPELINE_PATH}${ALL_PIPELINES}`);
+        this.allPipelinesSocket = socket;
+
+        socket.on('stateChange', () => this.updateConnectionState());
+        socket.on('rejected', (statusCode: number) => {
+            // Without the feed, new runs show up when the pipeline list is polled
+            if (statusCode !== 401 && statusCode !== 403 && this.allPipelinesSocket === socket) {
+                socket.close('Feed not supported');
+                this.allPipelinesSocket = null;
+                this.updateConnectionState();
+            }
+        });
+        socket.on('message', (message: any) => {
+            // Tracked pipelines' events arrive on their own sockets
+            if (!this.isTracked(message) && isRunStartOrEnd(message)) {
+                this.emitPipelineEvent(message);
+            }
+        });
+        socket.on('malformed', (data: string, error: Error) => this.logDropped(socket.url, `invalid JSON (${error.message})`, data));
+
+        socket.open();
+    }
+
+    private openPipelineSocket(pipelineId: string): void {
+        if (this.pipelineSockets.has(pipelineId)) {
+            return;
+        }
+
+        // The server closes a pipeline's socket normally once the pipeline is done
+        const socket = this.createSocket(`${PIPELINE_PATH}${pipelineId}`, false);
+        this.pipelineSockets.set(pipelineId, socket);
+
+        socket.on('stateChange', () => this.updateConnectionState());
+        socket.on('message', (message: any) => this.emitPipelineEvent(message, pipelineId));
+        socket.on('malformed', (data: string, error: Error) => this.logDropped(socket.url, `invalid JSON (${error.message})`, data));
+        socket.on('ended', () => {
+            this.pipelineSockets.delete(pipelineId);
+            this.subscriptions.delete(pipelineId);
+            this.updateConnectionState();
+        });
+
+        socket.open();
+    }
+
+    private createSocket(path: string, reconnectOnNormalClose: boolean = true): RealtimeSocket {
+        // Convert to WebSocket URL (use wss for https)
+        const wsUrl = this.api.getBaseUrl().replace(/^https/, 'wss').replace(/^http/, 'ws');
+
+        return new RealtimeSocket({
+            url: `${wsUrl}${path}`,
+            getHeaders: async (): Promise<{ [name: string]: string }> => {
+                const token = await this.api.getAuthToken();
+                return token ? { Authorization: `Bearer ${token}` } : {};
+            },
+            clientOptions: {
+                agent: this.api.getAgent()
+            },
+            reconnectOnNormalClose
+        });
+    }
+
+    /** Whether a message is for a tracked pipeline, or says nothing about which pipeline it's for. */
+    protected isTracked(message: any): boolean {
+        return !message || typeof message.pipelineId !== 'string' || this.subscriptions.has(message.pipelineId);
+    }
+
+    /** pipelineId is set for per-pipeline sockets, whose messages may omit it. */
+    protected emitPipelineEvent(message: unknown, pipelineId?: string): void {
+        this.emit('rawMessage', message, pipelineId);
+
+        const result = parsePipelineEvent(message, pipelineId);
+        if (!result.ok) {
+            this.logDropped(pipelineId ? `pipeline ${pipelineId}` : 'multiplexed socket', result.reason, String(JSON.stringify(message)));
+            return;
+        }
+
+        this.diagnostics.trace(`${result.event.type} for pipeline ${result.event.pipelineId}`);
+        this.emit('pipelineEvent', result.event);
+    }
+
+    protected logDropped(source: string, reason: string, data: string): void {
+        // Long log chunks would flood the channel
+        const excerpt = data.length > 500 ? `${data.slice(0, 500)}...` : data;
+        this.diagnostics.warn(`Dropped event from ${source}: ${reason}: ${excerpt}`);
+    }
+
+    private updateConnectionState(): void {
+        const sockets = this.multiplexSocket
+            ? [this.multiplexSocket]
+            : [...(this.allPipelinesSocket ? [this.allPipelinesSocket] : []), ...this.pipelineSockets.values()];
+        const states = sockets.map(socket => socket.getState());
+
+        let state: ConnectionState = 'disconnected';
+        if (states.includes('reconnecting')) {
+            state = 'reconnecting';
+        } else if (states.includes('connecting')) {
+            state = 'connecting';
+        } else if (states.length > 0 && states.every(s => s === 'connected')) {
+            state = 'connected';
+        }
+
+        this.setConnectionState(state);
+    }
+
+    protected setConnectionState(state: ConnectionState): void {
+        if (state !== this.connectionState) {
+            this.connectionState = state;
+            this._onDidChangeConnectionState.fire(state);
+        }
+    }
+
+    private clearAckTimer(): void {
+        if (this.ackTimer) {
+            clearTimeout(this.ackTimer);
+            this.ackTimer = null;
         }
     }
 }
 
-// 🤖 Generated with Claude
\ No newline at end of file
+/** Untracked pipelines only matter when a run starts or ends, e.g. to list a new run. */
+export function isRunStartOrEnd(message: unknown): boolean {
+    const result = parsePipelineEvent(message);
+    return result.ok && (result.event.type === 'pipeline_started' || result.event.type === 'pipeline_finished');
+}
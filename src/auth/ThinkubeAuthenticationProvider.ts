@@ -0,0 +1,214 @@
+import * as vscode from 'vscode';
+import { DEFAULT_PROFILE_NAME, ProfileManager } from '../profiles/ProfileManager';
+
+const TOKEN_SECRET_KEY = 'thinkube-cicd.apiToken';
+const SESSION_ID_PREFIX = 'thinkube-api-token:';
+
+/**
+ * What became of a token found in the old setting: moved to SecretStorage,
+ * dropped because it wasn't an API token, or dropped because SecretStorage
+ * already held one. The setting is removed in every case.
+ */
+export type TokenMigration = 'migrated' | 'invalid' | 'superseded';
+
+/**
+ * Keeps the Thinkube API tokens in SecretStorage, one per connection profile,
+ * and exposes them as VS Code authentication sessions, so the Accounts menu
+ * shows sign-in state. This is the only place the rest of the extension
+ * reads tokens from.
+ */
+export class ThinkubeAuthenticationProvider implements vscode.AuthenticationProvider, vscode.Disposable {
+    public static readonly id = 'thinkube';
+    public static readonly label = 'Thinkube';
+
+    private _onDidChangeSessions = new vscode.EventEmitter<vscode.AuthenticationProviderAuthenticationSessionsChangeEvent>();
+    readonly onDidChangeSessions = this._onDidChangeSessions.event;
+
+    private _cachedTokens = new Map<string, string | null>();
+    private _currentSessions = new Map<string, vscode.AuthenticationSession>();
+    private _disposables: vscode.Disposable[] = [];
+
+    constructor(
+        private readonly secrets: vscode.SecretStorage,
+        private readonly profiles: ProfileManager
+    ) {
+        this._disposables.push(
+            this._onDidChangeSessions,
+            secrets.onDidChange(async (e) => {
+                if (e.key === TOKEN_SECRET_KEY || e.key.startsWith(`${TOKEN_SECRET_KEY}.`)) {
+                    // Also fires when another window changes a token
+                    this._cachedTokens.clear();
+                    await this._checkForSessionChange();
+                }
+            }),
+            profiles.onDidChangeProfiles(() => this._checkForSessionChange()),
+            vscode.authentication.registerAuthenticationProvider(
+                ThinkubeAuthenticationProvider.id,
+                ThinkubeAuthenticationProvider.label,
+                this,
+                { supportsMultipleAccounts: true }
+            )
+        );
+        this._getSessions().then(sessions => {
+            sessions.forEach(session => this._currentSessions.set(session.id, session));
+        });
+    }
+
+    /** Returns the token for a profile, or for the active profile if none is given. */
+    async getToken(profileName: string = this.profiles.getActiveProfile().name): Promise<string | null> {
+        if (!this._cachedTokens.has(profileName)) {
+            const token = await this.secrets.get(secretKey(profileName));
+            this._cachedTokens.set(profileName, token && token.startsWith('tk_') ? token : null);
+        }
+        return this._cachedTokens.get(profileName) ?? null;
+    }
+
+    async setToken(token: string, profileName: string = this.profiles.getActiveProfile().name): Promise<void> {
+        if (!token.startsWith('tk_')) {
+            throw new Error('API token must start with tk_');
+        }
+        await this.secrets.store(secretKey(profileName), token);
+        this._cachedTokens.set(profileName, token);
+        await this._checkForSessionChange();
+    }
+
+    async clearToken(profileName: string = this.profiles.getActiveProfile().name): Promise<void> {
+        await this.secrets.delete(secretKey(profileName));
+        this._cachedTokens.set(profileName, null);
+        await this._checkForSessionChange();
+    }
+
+    /** Asks for a token. Returns '' if the user cleared it, undefined if cancelled. */
+    async promptForToken(profileName: string = this.profiles.getActiveProfile().name): Promise<string | undefined> {
+        const token = await vscode.window.showInputBox({
+            prompt: this.profiles.hasMultipleProfiles()
+                ? `Enter your Thinkube API token for "${profileName}" (starts with tk_)`
+                : 'Enter your Thinkube API token (starts with tk_)',
+            placeHolder: 'tk_...',
+            password: true,
+            ignoreFocusOut: true,
+            value: (await this.getToken(profileName)) || '',
+            validateInput: (value) => {
+                if (value && !value.startsWith('tk_')) {
+                    return 'API token must start with tk_';
+                }
+                return null;
+            }
+        });
+        return token?.trim();
+    }
+
+    /**
+     * Moves a token from the old plain-text setting into SecretStorage and
+     * removes it from settings. Returns undefined if there was none.
+     */
+    async migrateFromSettings(): Promise<TokenMigration | undefined> {
+        const config = vscode.workspace.getConfiguration('thinkube-cicd');
+        const inspected = config.inspect<string>('apiToken');
+        const legacyToken = inspected?.workspaceFolderValue || inspected?.workspaceValue || inspected?.globalValue;
+
+        if (!legacyToken) {
+            return undefined;
+        }
+
+        // The old setting belonged to the single apiUrl, i.e. the default profile
+        let result: TokenMigration;
+        if (!legacyToken.startsWith('tk_')) {
+            result = 'invalid';
+        } else if (await this.getToken(DEFAULT_PROFILE_NAME)) {
+            result = 'superseded';
+        } else {
+            await this.setToken(legacyToken, DEFAULT_PROFILE_NAME);
+            result = 'migrated';
+        }
+
+        // Remove the token from every scope it was written to
+        if (inspected?.globalValue !== undefined) {
+            await config.update('apiToken', undefined, vscode.ConfigurationTarget.Global);
+        }
+        if (inspected?.workspaceValue !== undefined) {
+            await config.update('apiToken', undefined, vscode.ConfigurationTarget.Workspace);
+        }
+        if (inspected?.workspaceFolderValue !== undefined) {
+            await config.update('apiToken', undefined, vscode.ConfigurationTarget.WorkspaceFolder);
+        }
+        return result;
+    }
+
+    async getSessions(): Promise<vscode.AuthenticationSession[]> {
+        return this._getSessions();
+    }
+
+    async createSession(): Promise<vscode.AuthenticationSession> {
+        const profileName = this.profiles.getActiveProfile().name;
+        const token = await this.promptForToken(profileName);
+        if (!token) {
+            throw new Error('Sign in to Thinkube was cancelled');
+        }
+        await this.setToken(token, profileName);
+        return (await this._getSession(profileName))!;
+    }
+
+    async removeSession(sessionId: string): Promise<void> {
+        if (sessionId.startsWith(SESSION_ID_PREFIX)) {
+            await this.clearToken(sessionId.slice(SESSION_ID_PREFIX.length));
+        }
+    }
+
+    dispose() {
+        while (this._disposables.length) {
+            const x = this._disposables.pop();
+            if (x) {
+                x.dispose();
+            }
+        }
+    }
+
+    private async _getSessions(): Promise<vscode.AuthenticationSession[]> {
+        const sessions = await Promise.all(
+            this.profiles.getProfiles().map(profile => this._getSession(profile.name))
+        );
+        return sessions.filter((session): session is vscode.AuthenticationSession => !!session);
+    }
+
+    private async _getSession(profileName: string): Promise<vscode.AuthenticationSession | undefined> {
+        const token = await this.getToken(profileName);
+        if (!token) {
+            return undefined;
+        }
+        const tokenLabel = `${token.slice(0, 3)}…${token.slice(-4)}`;
+        return {
+            id: `${SESSION_ID_PREFIX}${profileName}`,
+            accessToken: token,
+            account: {
+                id: `${SESSION_ID_PREFIX}${profileName}`,
+                label: this.profiles.hasMultipleProfiles()
+                    ? `${profileName} (${tokenLabel})`
+                    : `API token ${tokenLabel}`
+            },
+            scopes: []
+        };
+    }
+
+    private async _checkForSessionChange() {
+        const previous = this._currentSessions;
+        const current = new Map((await this._getSessions()).map(session => [session.id, session]));
+        this._currentSessions = current;
+
+        const added = [...current.values()].filter(session => !previous.has(session.id));
+        const removed = [...previous.values()].filter(session => !current.has(session.id));
+        const changed = [...current.values()].filter(session => {
+            const before = previous.get(session.id);
+            return before && before.accessToken !== session.accessToken;
+        });
+
+        if (added.length || removed.length || changed.length) {
+            this._onDidChangeSessions.fire({ added, removed, changed });
+        }
+    }
+}
+
+function secretKey(profileName: string): string {
+    // The default profile keeps the original key so existing tokens still work
+    return profileName === DEFAULT_PROFILE_NAME ? TOKEN_SECRET_KEY : `${TOKEN_SECRET_KEY}.${profileName}`;
+}
@@ -0,0 +1,88 @@
+import * as vscode from 'vscode';
+import { Pipeline } from '../models/Pipeline';
+
+/** What was last loaded from one connection profile. */
+export interface PipelineSnapshot {
+    savedAt: number;           // Epoch milliseconds of the last successful load
+    pipelines: Pipeline[];
+    total: number;
+    details: { [pipelineId: string]: Pipeline };
+}
+
+/**
+ * Persists the last known pipeline list and pipeline details per connection
+ * profile in the extension's global storage, so the tree can still show
+ * something when the Control Hub is unreachable.
+ */
+export class OfflineStore {
+    private snapshots = new Map<string, PipelineSnapshot | undefined>();
+    private writes = new Map<string, Promise<void>>();
+
+    constructor(private readonly storageUri: vscode.Uri) {}
+
+    async load(profileName: string): Promise<PipelineSnapshot | undefined> {
+        if (!this.snapshots.has(profileName)) {
+            let snapshot: PipelineSnapshot | undefined;
+            try {
+                const data = await vscode.workspace.fs.readFile(this.fileFor(profileName));
+                snapshot = JSON.parse(Buffer.from(data).toString('utf8'));
+            } catch {
+                // Nothing cached yet, or the file is unreadable
+                snapshot = undefined;
+            }
+            // A save may have happened while reading
+            if (!this.snapshots.has(profileName)) {
+                this.snapshots.set(profileName, snapshot);
+            }
+        }
+        return this.snapshots.get(profileName);
+    }
+
+    async saveList(profileName: string, pipelines: Pipeline[], total: number): Promise<void> {
+        const previous = await this.load(profileName);
+
+        // Only keep details for pipelines that are still listed
+        const details: { [pipelineId: string]: Pipeline } = {};
+        pipelines.forEach(pipeline => {
+            if (previous?.details[pipeline.id]) {
+                details[pipeline.id] = previous.details[pipeline.id];
+            }
+        });
+
+        this.snapshots.set(profileName, { savedAt: Date.now(), pipelines, total, details });
+        await this.write(profileName);
+    }
+
+    async saveDetails(profileName: string, pipeline: Pipeline): Promise<void> {
+        const snapshot = await this.load(profileName);
+        if (!snapshot) {
+            return; // Details are only useful next to a cached list
+        }
+        snapshot.details[pipeline.id] = pipeline;
+        await this.write(profileName);
+    }
+
+    async getDetails(profileName: string, pipelineId: string): Promise<Pipeline | undefined> {
+        return (await this.load(profileName))?.details[pipelineId];
+    }
+
+    private write(profileName: string): Promise<void> {
+        // Chain writes per profile so an older snapshot never lands last
+        const previous = this.writes.get(profileName) || Promise.resolve();
+        const next = previous.then(async () => {
+            try {
+                await vscode.workspace.fs.createDirectory(this.storageUri);
+                const json = JSON.stringify(this.snapshots.get(profileName));
+                await vscode.workspace.fs.writeFile(this.fileFor(profileName), Buffer.from(json, 'utf8'));
+            } catch (error) {
+                console.error(`Failed to save offline cache for ${profileName}:`, error);
+            }
+        });
+        this.writes.set(profileName, next);
+        return next;
+    }
+
+    private fileFor(profileName: string): vscode.Uri {
+        return vscode.Uri.joinPath(this.storageUri, `pipelines-${encodeURIComponent(profileName)}.json`);
+    }
+}
@@ -0,0 +1,57 @@
+import test from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Pipeline, PipelineStage, PipelineStatus, StageStatus } from '../models/Pipeline';
+import { makePipeline, makeStage } from '../testing/fixtures';
+import { exportPipelines } from './PipelineExport';
+
+function failedPipeline(stages: PipelineStage[], overrides: Partial<Pipeline> = {}): Pipeline {
+    return makePipeline({ status: PipelineStatus.FAILED, stages, ...overrides });
+}
+
+test('quotes CSV fields with quotes, commas or line breaks', () => {
+    const csv = exportPipelines([failedPipeline([
+        makeStage('build, test', StageStatus.FAILED, { duration: 5, errorMessage: 'expected "a"\r\ngot "b"' }),
+        makeStage('deploy', StageStatus.SUCCEEDED, { startedAt: 1700000010, completedAt: 1700000012 })
+    ])], 'csv');
+    const lines = csv.split('\r\n');
+
+    assert.equal(lines[0], 'pipeline_id,app_name,pipeline_status,branch,commit,stage,component,status,started_at,completed_at,duration_seconds,error_message');
+    assert.equal(lines[1], 'p1,shop,FAILED,main,abc1234def,"build, test",web,FAILED,2023-11-14T22:13:20.000Z,,5,"expected ""a""');
+    assert.equal(lines[2], 'got ""b"""');
+    assert.equal(lines[3], 'p1,shop,FAILED,main,abc1234def,deploy,web,SUCCEEDED,2023-11-14T22:13:30.000Z,2023-11-14T22:13:32.000Z,2,');
+    assert.equal(lines[4], '');
+});
+
+test('escapes JUnit attributes and drops characters XML 1.0 forbids', () => {
+    const xml = exportPipelines([failedPipeline([
+        makeStage('a<b>&"c"', StageStatus.FAILED, { duration: 1.5, errorMessage: 'bad\u0000\u001b[31m <tag> & more' }),
+        makeStage('deploy', StageStatus.RUNNING),
+        makeStage('notify', StageStatus.SKIPPED)
+    ])], 'junit');
+
+    assert.match(xml, /<testsuite name="shop" id="p1" tests="3" failures="1" errors="0" skipped="2" time="1.500"/);
+    assert.match(xml, /<testcase classname="shop.web" name="a&lt;b&gt;&amp;&quot;c&quot;" time="1.500">/);
+    assert.match(xml, /<failure message="bad\[31m &lt;tag&gt; &amp; more" type="FAILED">bad\[31m &lt;tag&gt; &amp; more<\/failure>/);
+    assert.match(xml, /<skipped message="Stage running"\/>/);
+    assert.match(xml, /<skipped message="Stage skipped"\/>/);
+    assert.match(xml, /<property name="trigger.user" value="alice"\/>/);
+    assert.doesNotMatch(xml, /[\u0000-\u0008\u000B\u000C\u000E-\u001F]/);
+});
+
+test('escapes Markdown in names and messages', () => {
+    const markdown = exportPipelines([failedPipeline([
+        makeStage('lint|*fast*', StageStatus.FAILED, { component: 'web_app', duration: 3, errorMessage: 'see <a> [link]\nsecond line' })
+    ], { trigger: { type: 'manual', user: 'bob_smith', message: 'Fix `x` *now*' } })], 'markdown');
+
+    assert.match(markdown, /^## shop: FAILED\n/);
+    assert.match(markdown, /- \*\*Trigger:\*\* manual by bob\\_smith\n/);
+    assert.match(markdown, /\| lint\\\|\\\*fast\\\* \| web\\_app \| FAILED \| /);
+    assert.match(markdown, /- \*\*lint\\\|\\\*fast\\\*:\*\* see \\<a\\> \\\[link\\\]\n/);
+    assert.doesNotMatch(markdown, /second line/);
+});
+
+test('exports a single pipeline as a JSON object and several as an array', () => {
+    const single = failedPipeline([]);
+    assert.deepEqual(JSON.parse(exportPipelines([single], 'json')), single);
+    assert.equal(JSON.parse(exportPipelines([single, { ...single, id: 'p2' }], 'json')).length, 2);
+});
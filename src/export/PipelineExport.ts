@@ -0,0 +1,202 @@
+import { Pipeline, PipelineStage, StageStatus, getPipelineDuration, getStageDuration } from '../models/Pipeline';
+import { formatDuration } from '../utils/format';
+
+export type ExportFormat = 'json' | 'csv' | 'junit' | 'markdown';
+
+export interface ExportFormatInfo {
+    format: ExportFormat;
+    label: string;
+    description: string;
+    extension: string;         // File extension for the save dialog, without the dot
+}
+
+export const EXPORT_FORMATS: ExportFormatInfo[] = [
+    { format: 'json', label: 'JSON', description: 'Pipelines and stages as returned by the Control Hub', extension: 'json' },
+    { format: 'csv', label: 'CSV', description: 'One row per stage', extension: 'csv' },
+    { format: 'junit', label: 'JUnit XML', description: 'Stages as test cases, failed stages as failures', extension: 'xml' },
+    { format: 'markdown', label: 'Markdown', description: 'Summary with trigger info and stage durations', extension: 'md' }
+];
+
+const CSV_COLUMNS = [
+    'pipeline_id', 'app_name', 'pipeline_status', 'branch', 'commit',
+    'stage', 'component', 'status', 'started_at', 'completed_at', 'duration_seconds', 'error_message'
+];
+
+/** Serializes pipelines, including their stages, in the given format. */
+export function exportPipelines(pipelines: Pipeline[], format: ExportFormat): string {
+    switch (format) {
+        case 'json':
+            return JSON.stringify(pipelines.length === 1 ? pipelines[0] : pipelines, null, 2) + '\n';
+        case 'csv':
+            return toCsv(pipelines);
+        case 'junit':
+            return toJUnit(pipelines);
+        case 'markdown':
+            return pipelines.map(toMarkdown).join('\n');
+    }
+}
+
+function toCsv(pipelines: Pipeline[]): string {
+    const rows = pipelines.flatMap(pipeline => sortedStages(pipeline).map(stage => [
+        pipeline.id,
+        pipeline.appName,
+        pipeline.status,
+        pipeline.trigger.branch,
+        pipeline.trigger.commit,
+        stage.stageName,
+        stage.component,
+        stage.status,
+        toIsoTime(stage.startedAt),
+        toIsoTime(stage.completedAt),
+        getStageDuration(stage),
+        stage.errorMessage
+    ]));
+
+    return [CSV_COLUMNS, ...rows]
+        .map(row => row.map(csvField).join(','))
+        .join('\r\n') + '\r\n';
+}
+
+/**
+ * One testsuite per pipeline with its stages as testcases. Stages that
+ * haven't finished are reported as skipped so the counts still add up.
+ */
+function toJUnit(pipelines: Pipeline[]): string {
+    let tests = 0;
+    let failures = 0;
+    let totalTime = 0;
+
+    const suites = pipelines.map(pipeline => {
+        const stages = sortedStages(pipeline);
+        const failed = stages.filter(stage => stage.status === StageStatus.FAILED).length;
+        const skipped = stages.filter(stage => !isFinished(stage) || stage.status === StageStatus.SKIPPED).length;
+        const time = stages.reduce((sum, stage) => sum + (getStageDuration(stage) ?? 0), 0);
+        tests += stages.length;
+        failures += failed;
+        totalTime += time;
+
+        const trigger = pipeline.trigger;
+        const properties = [
+            ['pipeline.id', pipeline.id],
+            ['pipeline.status', pipeline.status],
+            ['trigger.type', trigger.type],
+            ['trigger.user', trigger.user],
+            ['trigger.branch', trigger.branch],
+            ['trigger.commit', trigger.commit]
+        ].filter(([, value]) => value);
+
+        const testcases = stages.map(stage => {
+            const attributes = `classname="${xmlEscape(`${pipeline.appName}.${stage.component || 'pipeline'}`)}" ` +
+                `name="${xmlEscape(stage.stageName)}" time="${(getStageDuration(stage) ?? 0).toFixed(3)}"`;
+
+            if (stage.status === StageStatus.FAILED) {
+                const message = stage.errorMessage || 'Stage failed';
+                return `    <testcase ${attributes}>\n` +
+                    `      <failure message="${xmlEscape(message)}" type="${xmlEscape(stage.status)}">${xmlEscape(message)}</failure>\n` +
+                    '    </testcase>';
+            }
+            if (stage.status === StageStatus.SKIPPED || !isFinished(stage)) {
+                const message = stage.status === StageStatus.SKIPPED ? 'Stage skipped' : `Stage ${stage.status.toLowerCase()}`;
+                return `    <testcase ${attributes}>\n` +
+                    `      <skipped message="${xmlEscape(message)}"/>\n` +
+                    '    </testcase>';
+            }
+            return `    <testcase ${attributes}/>`;
+        });
+
+        return `  <testsuite name="${xmlEscape(pipeline.appName)}" id="${xmlEscape(pipeline.id)}" ` +
+            `tests="${stages.length}" failures="${failed}" errors="0" skipped="${skipped}" ` +
+            `time="${time.toFixed(3)}" timestamp="${toIsoTime(pipeline.startTime)}">\n` +
+            (properties.length > 0
+                ? '    <properties>\n' +
+                  properties.map(([name, value]) => `      <property name="${name}" value="${xmlEscape(value!)}"/>`).join('\n') +
+                  '\n    </properties>\n'
+                : '') +
+            testcases.join('\n') + (testcases.length > 0 ? '\n' : '') +
+            '  </testsuite>';
+    });
+
+    return '<?xml version="1.0" encoding="UTF-8"?>\n' +
+        `<testsuites name="Thinkube CI/CD" tests="${tests}" failures="${failures}" errors="0" time="${totalTime.toFixed(3)}">\n` +
+        suites.join('\n') + (suites.length > 0 ? '\n' : '') +
+        '</testsuites>\n';
+}
+
+function toMarkdown(pipeline: Pipeline): string {
+    const trigger = pipeline.trigger;
+    const duration = getPipelineDuration(pipeline);
+    const lines = [
+        `## ${pipeline.appName}: ${pipeline.status}`,
+        '',
+        `- **Pipeline:** \`${pipeline.id}\``,
+        `- **Started:** ${new Date(pipeline.startTime * 1000).toLocaleString()}`
+    ];
+    if (pipeline.endTime) {
+        lines.push(`- **Ended:** ${new Date(pipeline.endTime * 1000).toLocaleString()}`);
+    }
+    if (duration !== undefined) {
+        lines.push(`- **Duration:** ${formatDuration(duration)}`);
+    }
+    lines.push(`- **Trigger:** ${trigger.type}${trigger.user ? ` by ${markdownEscape(trigger.user)}` : ''}`);
+    if (trigger.branch) {
+        lines.push(`- **Branch:** \`${trigger.branch}\``);
+    }
+    if (trigger.commit) {
+        const subject = trigger.message ? ` ${markdownEscape(trigger.message.split('\n')[0])}` : '';
+        lines.push(`- **Commit:** \`${trigger.commit.slice(0, 7)}\`${subject}`);
+    }
+
+    const stages = sortedStages(pipeline);
+    lines.push('');
+    if (stages.length === 0) {
+        lines.push('_No stages recorded._');
+    } else {
+        lines.push('| Stage | Component | Status | Duration |', '| --- | --- | --- | ---: |');
+        for (const stage of stages) {
+            const stageDuration = getStageDuration(stage);
+            lines.push(`| ${markdownEscape(stage.stageName)} | ${markdownEscape(stage.component || '-')} | ` +
+                `${stage.status} | ${stageDuration !== undefined ? formatDuration(stageDuration) : '-'} |`);
+        }
+    }
+
+    const errors = stages.filter(stage => stage.errorMessage);
+    if (errors.length > 0) {
+        lines.push('', '**Errors**', '');
+        for (const stage of errors) {
+            lines.push(`- **${markdownEscape(stage.stageName)}:** ${markdownEscape(stage.errorMessage!.split('\n')[0])}`);
+        }
+    }
+
+    return lines.join('\n') + '\n';
+}
+
+function sortedStages(pipeline: Pipeline): PipelineStage[] {
+    return [...(pipeline.stages || [])].sort((a, b) => a.startedAt - b.startedAt);
+}
+
+function isFinished(stage: PipelineStage): boolean {
+    return stage.status !== StageStatus.RUNNING && stage.status !== StageStatus.PENDING;
+}
+
+function toIsoTime(seconds: number | undefined): string {
+    return seconds ? new Date(seconds * 1000).toISOString() : '';
+}
+
+function csvField(value: string | number | undefined): string {
+    const text = value === undefined || value === null ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function xmlEscape(text: string): string {
+    return String(text)
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        // Control characters other than tab and newlines aren't allowed in XML 1.0
+        .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+function markdownEscape(text: string): string {
+    return text.replace(/([\\|*_`[\]<>])/g, '\\$1');
+}
@@ -1,22 +1,195 @@
 import * as vscode from 'vscode';
-import { PipelineTreeProvider } from './views/PipelineTreeProvider';
-import { PipelineTimelinePanel } from './views/PipelineTimelinePanel';
+import { PipelineTreeProvider, StageItem } from './views/PipelineTreeProvider';
+import { PipelineTimelinePanel, PipelineTimelineSerializer } from './views/PipelineTimelinePanel';
+import { MetricsDashboardPanel } from './views/MetricsDashboardPanel';
+import { PipelineAnalysisPanel } from './views/PipelineAnalysisPanel';
+import { PipelineComparisonPanel } from './views/PipelineComparisonPanel';
+import { getPipelineAnalysis } from './analysis/PipelineAnalyzer';
+import { comparePipelines } from './analysis/PipelineComparison';
+import { EXPORT_FORMATS, exportPipelines } from './export/PipelineExport';
 import { ControlHubAPI } from './api/ControlHubAPI';
+import { Transport, loadTransport } from './api/Transport';
+import { ThinkubeAuthenticationProvider } from './auth/ThinkubeAuthenticationProvider';
+import { ConnectionProfile, ProfileManager } from './profiles/ProfileManager';
+import { ProfileStatusBar } from './views/ProfileStatusBar';
+import { AppStatusBar } from './views/AppStatusBar';
+import { DoNotDisturbStatusBar } from './views/DoNotDisturbStatusBar';
+import { NotificationEngine } from './notifications/NotificationEngine';
+import { CommitPipelineLinker, commitFromCommandArgs, findPipelinesForCommit } from './git/CommitPipelineLinker';
+import { resolveWorkspaceApp } from './git/workspaceApp';
 import { WebSocketManager } from './api/WebSocketManager';
+import { MockControlHub } from './mock/MockControlHub';
+import { MockWebSocketManager } from './mock/MockWebSocketManager';
+import { EventRecorder } from './recording/EventRecorder';
+import { RecordingReplayer } from './recording/RecordingReplayer';
+import { ReplayWebSocketManager } from './recording/ReplayWebSocketManager';
+import { RecordingStatusBar } from './views/RecordingStatusBar';
+import { InsecureTlsStatusBar } from './views/InsecureTlsStatusBar';
+import { OfflineStore } from './cache/OfflineStore';
+import { LOG_SCHEME, StageLogProvider, openStageLogs } from './logs/StageLogProvider';
+import { collectTriggerOptions } from './views/TriggerBuildInput';
+import { describePipelineFilter, editPipelineFilter, pickPipelineGrouping } from './views/PipelineFilterInput';
+import { Pipeline, PipelineStatus } from './models/Pipeline';
+import { PipelineEvent } from './models/PipelineEvent';
 
 let controlHubAPI: ControlHubAPI;
+let websocketManager: WebSocketManager;
 
-export function activate(context: vscode.ExtensionContext) {
+// How long to wait for a triggered pipeline to leave PENDING before giving up on auto-opening it
+const TRIGGER_FOLLOW_TIMEOUT = 120000;
+const TRIGGER_POLL_INTERVAL = 3000;
+const REPLAY_SPEEDS = [1, 2, 5, 10, 60];
+
+export async function activate(context: vscode.ExtensionContext) {
     console.log('Thinkube CI/CD Monitor is now active!');
 
-    // Initialize the API client
-    controlHubAPI = new ControlHubAPI();
+    const profileManager = new ProfileManager(context.globalState);
+    context.subscriptions.push(profileManager);
+
+    // Tokens live in SecretStorage; move any token left in settings there first
+    const authProvider = new ThinkubeAuthenticationProvider(context.secrets, profileManager);
+    context.subscriptions.push(authProvider);
+    try {
+        const migration = await authProvider.migrateFromSettings();
+        if (migration === 'migrated') {
+            vscode.window.showInformationMessage('Your Thinkube API token was moved from settings to secure storage.');
+        } else if (migration === 'superseded') {
+            vscode.window.showInformationMessage(
+                'The API token in settings was removed. The token already in secure storage is used instead.'
+            );
+        } else if (migration === 'invalid') {
+            vscode.window.showWarningMessage(
+                'The thinkube-cicd.apiToken setting did not hold an API token (they start with "tk_") and was removed.',
+                'Configure Token'
+            ).then(selection => {
+                if (selection === 'Configure Token') {
+                    vscode.commands.executeCommand('thinkube-cicd.configureToken');
+                }
+            });
+        }
+    } catch (error) {
+        console.error('Failed to migrate API token from settings:', error);
+    }
+
+    // Dropped realtime messages and other protocol problems end up here
+    const diagnostics = vscode.window.createOutputChannel('Thinkube CI/CD Diagnostics', { log: true });
+    context.subscriptions.push(
+        diagnostics,
+        vscode.commands.registerCommand('thinkube-cicd.showDiagnostics', () => diagnostics.show())
+    );
+
+    // Mock mode answers every request and event from an in-process fake Control Hub
+    let mockHub: MockControlHub | undefined;
+    if (vscode.workspace.getConfiguration('thinkube-cicd').get<boolean>('mockMode', false)) {
+        try {
+            mockHub = await MockControlHub.load(vscode.Uri.joinPath(context.extensionUri, 'media', 'mock', 'pipelines.json'));
+            context.subscriptions.push(mockHub);
+            mockHub.start();
+        } catch (error) {
+            console.error('Failed to start mock mode:', error);
+            vscode.window.showErrorMessage(`Could not start mock mode: ${(error as Error).message}`);
+        }
+    }
+    vscode.commands.executeCommand('setContext', 'thinkube-cicd.mockMode', !!mockHub);
+
+    // Records what the Control Hub sends while recording is on
+    const recorder = new EventRecorder();
+    context.subscriptions.push(recorder);
+
+    // While a recording is replayed, it answers every request and event instead
+    let replayer: RecordingReplayer | undefined;
+
+    // The views' listeners on the current websocketManager, removed when it is replaced
+    let websocketSubscription: vscode.Disposable | undefined;
+
+    // TLS and proxy settings shared by every REST and WebSocket connection
+    const insecureTlsStatusBar = new InsecureTlsStatusBar();
+    context.subscriptions.push(insecureTlsStatusBar);
+    const loadConnectionTransport = async (): Promise<Transport> => {
+        const { transport, problems } = await loadTransport(
+            vscode.workspace.getConfiguration('thinkube-cicd.tls'),
+            vscode.workspace.getConfiguration('http')
+        );
+        problems.forEach(problem => vscode.window.showErrorMessage(problem));
+        insecureTlsStatusBar.update(transport.insecure);
+        return transport;
+    };
+    let transport = await loadConnectionTransport();
+
+    const createApi = (profile: ConnectionProfile) => new ControlHubAPI(
+        authProvider,
+        // Replayed pipelines are shown under the profile they were recorded from
+        replayer ? { name: `Replay of ${replayer.recording.header.profile}`, apiUrl: profile.apiUrl } : profile,
+        {
+            adapter: replayer?.adapter ?? mockHub?.adapter,
+            transport,
+            onResponse: response => recorder.recordResponse(response)
+        }
+    );
+    const createWebSocketManager = (api: ControlHubAPI) => {
+        if (replayer) {
+            return new ReplayWebSocketManager(api, diagnostics, replayer);
+        }
+        return mockHub
+            ? new MockWebSocketManager(api, diagnostics, mockHub)
+            : new WebSocketManager(api, diagnostics);
+    };
+
+    // Initialize the API client for the active connection profile
+    controlHubAPI = createApi(profileManager.getActiveProfile());
+    websocketManager = createWebSocketManager(controlHubAPI);
 
     // Create tree data provider using the API
-    const pipelineProvider = new PipelineTreeProvider(controlHubAPI);
+    const pipelineProvider = new PipelineTreeProvider(
+        controlHubAPI,
+        context.workspaceState,
+        new OfflineStore(context.globalStorageUri)
+    );
+    context.subscriptions.push(pipelineProvider);
+
+    // Pipelines listed from another environment must be handled by that environment's client
+    const apiFor = (pipelineId: string) => pipelineProvider.findApiForPipeline(pipelineId) || controlHubAPI;
 
-    // Register tree data provider
-    vscode.window.registerTreeDataProvider('thinkube-cicd.pipelines', pipelineProvider);
+    // Falls back to the offline cache so pipelines can still be viewed without a connection
+    const getPipelineOrCached = async (pipelineId: string) => {
+        try {
+            return await apiFor(pipelineId).getPipeline(pipelineId);
+        } catch (error) {
+            const cached = await pipelineProvider.getCachedDetails(pipelineId);
+            if (!cached) {
+                throw error;
+            }
+            vscode.window.showWarningMessage('Control Hub unreachable. Showing cached pipeline details.');
+            return cached;
+        }
+    };
+
+    // Clients for every environment shown in the tree, reusing the active one
+    const getTreeApis = (): ControlHubAPI[] => {
+        const showAll = vscode.workspace.getConfiguration('thinkube-cicd').get<boolean>('showAllProfiles', false);
+        if (!showAll || replayer) {
+            return [controlHubAPI];
+        }
+        return profileManager.getProfiles().map(profile =>
+            profile.name === controlHubAPI.profile.name ? controlHubAPI : createApi(profile)
+        );
+    };
+    if (getTreeApis().length > 1) {
+        pipelineProvider.setApis(getTreeApis());
+    }
+
+    // Register tree view
+    const pipelineTreeView = vscode.window.createTreeView('thinkube-cicd.pipelines', {
+        treeDataProvider: pipelineProvider,
+        canSelectMany: true
+    });
+    context.subscriptions.push(pipelineTreeView);
+
+    const updateFilterState = () => {
+        pipelineTreeView.description = describePipelineFilter(pipelineProvider.getFilter());
+        vscode.commands.executeCommand('setContext', 'thinkube-cicd.pipelinesFiltered', pipelineProvider.isFiltered());
+    };
+    updateFilterState();
 
     // Register commands
     context.subscriptions.push(
@@ -26,35 +199,117 @@ export function activate(context: vscode.ExtensionContext) {
     );
 
     context.subscriptions.push(
-        vscode.commands.registerCommand('thinkube-cicd.showPipeline', async (arg: any) => {
-            let pipelineId: string | undefined;
-            
-            // Check if arg is a PipelineItem (from inline button click)
-            if (arg && arg.pipeline && arg.pipeline.id) {
-                pipelineId = arg.pipeline.id;
+        vscode.commands.registerCommand('thinkube-cicd.loadMorePipelines', () => pipelineProvider.loadMore())
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('thinkube-cicd.filterPipelines', async () => {
+            const filter = await editPipelineFilter(pipelineProvider.getFilter(), () => controlHubAPI.listApplications());
+            if (filter) {
+                await pipelineProvider.setFilter(filter);
+                updateFilterState();
             }
-            // Check if arg is a string (from tree item click or programmatic call)
-            else if (typeof arg === 'string') {
-                pipelineId = arg;
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('thinkube-cicd.clearPipelineFilter', async () => {
+            await pipelineProvider.setFilter({});
+            updateFilterState();
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('thinkube-cicd.groupPipelines', async () => {
+            const grouping = await pickPipelineGrouping(pipelineProvider.getGrouping());
+            if (grouping) {
+                await pipelineProvider.setGrouping(grouping);
             }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('thinkube-cicd.showPipeline', async (arg: any) => {
+            const pipelineId = resolvePipelineId(arg);
             
             if (!pipelineId) {
                 vscode.window.showErrorMessage('Pipeline ID not provided');
                 return;
             }
             
-            const pipeline = await controlHubAPI.getPipeline(pipelineId);
-            if (pipeline) {
-                PipelineTimelinePanel.render(context.extensionUri, pipeline);
+            try {
+                const pipeline = await getPipelineOrCached(pipelineId);
+                if (pipeline) {
+                    PipelineTimelinePanel.render(context.extensionUri, pipeline);
+                }
+            } catch (error: any) {
+                vscode.window.showErrorMessage(`Failed to load pipeline: ${error.message}`);
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('thinkube-cicd.showTimeline', async (arg: any) => {
+            const pipelineId = resolvePipelineId(arg);
+            if (!pipelineId) {
+                vscode.window.showErrorMessage('Pipeline ID not provided');
+                return;
+            }
+            try {
+                const pipeline = await getPipelineOrCached(pipelineId);
+                if (pipeline) {
+                    PipelineTimelinePanel.render(context.extensionUri, pipeline);
+                }
+            } catch (error: any) {
+                vscode.window.showErrorMessage(`Failed to load pipeline: ${error.message}`);
+            }
+        })
+    );
+
+    // Timeline panels reopen after a window reload and follow their pipeline live
+    context.subscriptions.push(
+        vscode.window.registerWebviewPanelSerializer(
+            PipelineTimelinePanel.viewType,
+            new PipelineTimelineSerializer(context.extensionUri, getPipelineOrCached)
+        ),
+        PipelineTimelinePanel.onDidOpen(pipeline => {
+            if (pipeline.status === PipelineStatus.RUNNING || pipeline.status === PipelineStatus.PENDING) {
+                websocketManager.trackPipeline(pipeline.id);
+            }
+        })
+    );
+
+    const stageLogProvider = new StageLogProvider(apiFor);
+    context.subscriptions.push(stageLogProvider);
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('thinkube-cicd.openStageLogs', async (arg: any, stageNameArg?: string) => {
+            // Called on a StageItem, or with (pipelineId, stageName) from the timeline panel
+            const pipelineId: string | undefined = arg instanceof StageItem ? arg.pipelineId : arg;
+            const stageName = arg instanceof StageItem ? arg.stage : stageNameArg;
+            if (!pipelineId || !stageName) {
+                vscode.window.showErrorMessage('Pipeline stage not provided');
+                return;
+            }
+            try {
+                await openStageLogs(pipelineId, stageName);
+            } catch (error: any) {
+                vscode.window.showErrorMessage(`Failed to open logs: ${error.message}`);
             }
         })
     );
 
     context.subscriptions.push(
-        vscode.commands.registerCommand('thinkube-cicd.showTimeline', async (pipelineId: string) => {
-            const pipeline = await controlHubAPI.getPipeline(pipelineId);
-            if (pipeline) {
-                PipelineTimelinePanel.render(context.extensionUri, pipeline);
+        vscode.commands.registerCommand('thinkube-cicd.followLog', () => {
+            const uri = vscode.window.activeTextEditor?.document.uri;
+            if (uri && uri.scheme === LOG_SCHEME) {
+                stageLogProvider.setFollowing(uri, true);
+            }
+        }),
+        vscode.commands.registerCommand('thinkube-cicd.unfollowLog', () => {
+            const uri = vscode.window.activeTextEditor?.document.uri;
+            if (uri && uri.scheme === LOG_SCHEME) {
+                stageLogProvider.setFollowing(uri, false);
             }
         })
     );
@@ -66,68 +321,578 @@ export function activate(context: vscode.ExtensionContext) {
                 placeHolder: 'Select application to build'
             });
             
-            if (selected) {
-                // TODO: Implement build trigger via API
-                vscode.window.showInformationMessage(`Triggering build for ${selected}...`);
+            if (!selected) {
+                return;
+            }
+
+            // Offer branches that have been built recently as suggestions
+            const recent = await controlHubAPI.listPipelines({ appName: selected }, 20);
+            const knownBranches = (recent.ok ? recent.value.pipelines : [])
+                .map(pipeline => pipeline.trigger.branch)
+                .filter((branch): branch is string => !!branch);
+
+            const options = await collectTriggerOptions(selected, knownBranches);
+            if (!options) {
+                return;
+            }
+
+            let pipelineId: string;
+            try {
+                pipelineId = await controlHubAPI.triggerPipeline(selected, options);
+            } catch (error: any) {
+                vscode.window.showErrorMessage(`Failed to trigger build for ${selected}: ${error.message}`);
+                return;
             }
+
+            vscode.window.showInformationMessage(`Build triggered for ${selected} on ${options.branch}`);
+            context.subscriptions.push(followTriggeredPipeline(pipelineId, controlHubAPI, pipelineProvider));
         })
     );
 
     context.subscriptions.push(
-        vscode.commands.registerCommand('thinkube-cicd.showMetrics', async () => {
+        vscode.commands.registerCommand('thinkube-cicd.showMetrics', async (currentApps?: string[]) => {
             const apps = await controlHubAPI.listApplications();
-            const selected = await vscode.window.showQuickPick(apps, {
-                placeHolder: 'Select application for metrics'
-            });
+            const defaultApp = profileManager.getActiveProfile().defaultApp;
+            const preselected = Array.isArray(currentApps) ? currentApps : (defaultApp ? [defaultApp] : []);
+
+            const selected = await vscode.window.showQuickPick(
+                apps.map(app => ({ label: app, picked: preselected.includes(app) })),
+                {
+                    placeHolder: 'Select applications for metrics (pick several to compare)',
+                    canPickMany: true
+                }
+            );
             
-            if (selected) {
-                const metrics = await controlHubAPI.getMetrics(selected);
-                // TODO: Show metrics in webview
-                vscode.window.showInformationMessage(`Metrics for ${selected}: Success rate ${metrics.successRate.toFixed(1)}%`);
+            if (selected && selected.length > 0) {
+                MetricsDashboardPanel.render(context.extensionUri, controlHubAPI, selected.map(item => item.label));
             }
         })
     );
 
     context.subscriptions.push(
-        vscode.commands.registerCommand('thinkube-cicd.analyzePipeline', async (pipelineId: string) => {
-            // TODO: Implement pipeline analysis via API
-            vscode.window.showInformationMessage('Pipeline analysis coming soon!');
+        vscode.commands.registerCommand('thinkube-cicd.analyzePipeline', async (arg: any) => {
+            const pipelineId = resolvePipelineId(arg);
+            if (!pipelineId) {
+                vscode.window.showErrorMessage('Pipeline ID not provided');
+                return;
+            }
+
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: 'Analyzing pipeline...'
+            }, async () => {
+                try {
+                    const pipeline = await apiFor(pipelineId).getPipeline(pipelineId);
+                    if (!pipeline) {
+                        vscode.window.showErrorMessage(`Pipeline ${pipelineId} not found`);
+                        return;
+                    }
+                    const result = await getPipelineAnalysis(apiFor(pipelineId), pipeline);
+                    PipelineAnalysisPanel.render(pipeline, result);
+                } catch (error: any) {
+                    vscode.window.showErrorMessage(`Failed to analyze pipeline: ${error.message}`);
+                }
+            });
         })
     );
 
     context.subscriptions.push(
-        vscode.commands.registerCommand('thinkube-cicd.configureToken', async () => {
-            const currentToken = vscode.workspace.getConfiguration('thinkube-cicd').get<string>('apiToken');
-            
-            const token = await vscode.window.showInputBox({
-                prompt: 'Enter your Thinkube API token (starts with tk_)',
-                placeHolder: 'tk_...',
-                password: true,
-                value: currentToken || '',
-                validateInput: (value) => {
-                    if (value && !value.startsWith('tk_')) {
-                        return 'API token must start with tk_';
-                    }
-                    return null;
+        vscode.commands.registerCommand('thinkube-cicd.comparePipelines', async (arg: any) => {
+            const pipelineId = resolvePipelineId(arg);
+            if (!pipelineId) {
+                vscode.window.showErrorMessage('Pipeline ID not provided');
+                return;
+            }
+
+            const api = apiFor(pipelineId);
+            try {
+                const base = await api.getPipeline(pipelineId);
+                if (!base) {
+                    vscode.window.showErrorMessage(`Pipeline ${pipelineId} not found`);
+                    return;
+                }
+
+                // Other runs of the same application, newest first
+                const runs = await api.listPipelines({ appName: base.appName }, 20);
+                if (!runs.ok) {
+                    vscode.window.showErrorMessage(`Failed to load other runs: ${runs.error.message}`);
+                    return;
+                }
+                const picked = await vscode.window.showQuickPick(
+                    runs.value.pipelines
+                        .filter(pipeline => pipeline.id !== base.id)
+                        .map(pipeline => ({
+                            label: `${pipeline.status} - ${new Date(pipeline.startTime * 1000).toLocaleString()}`,
+                            description: [pipeline.trigger.branch, pipeline.trigger.commit?.slice(0, 7)].filter(Boolean).join(' @ '),
+                            detail: pipeline.trigger.user ? `Triggered by ${pipeline.trigger.user}` : undefined,
+                            pipelineId: pipeline.id
+                        })),
+                    { placeHolder: `Compare ${base.appName} with...` }
+                );
+                if (!picked) {
+                    return;
+                }
+
+                const other = await api.getPipeline(picked.pipelineId);
+                if (!other) {
+                    vscode.window.showErrorMessage(`Pipeline ${picked.pipelineId} not found`);
+                    return;
+                }
+                PipelineComparisonPanel.render(comparePipelines(base, other));
+            } catch (error: any) {
+                vscode.window.showErrorMessage(`Failed to compare pipelines: ${error.message}`);
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        // Tree item commands get the clicked item and, with several selected, all selected items
+        vscode.commands.registerCommand('thinkube-cicd.exportPipelines', async (arg: any, selected?: any[]) => {
+            const items = selected && selected.length > 0 ? selected : arg ? [arg] : pipelineTreeView.selection;
+            const pipelineIds = items
+                .map(resolvePipelineId)
+                .filter((id, index, all): id is string => !!id && all.indexOf(id) === index);
+            if (pipelineIds.length === 0) {
+                vscode.window.showErrorMessage('Pipeline ID not provided');
+                return;
+            }
+
+            const format = await vscode.window.showQuickPick(
+                EXPORT_FORMATS.map(info => ({ label: info.label, description: info.description, info })),
+                { placeHolder: `Export ${pipelineIds.length === 1 ? 'pipeline' : `${pipelineIds.length} pipelines`} as...` }
+            );
+            if (!format) {
+                return;
+            }
+            const destination = await vscode.window.showQuickPick(
+                [
+                    { label: '$(save) Save to File...', target: 'file' },
+                    { label: '$(clippy) Copy to Clipboard', target: 'clipboard' }
+                ],
+                { placeHolder: `Export ${format.label} to` }
+            );
+            if (!destination) {
+                return;
+            }
+
+            let content: string;
+            try {
+                // Listed pipelines don't carry their stages, so load every one in full
+                const pipelines = await vscode.window.withProgress({
+                    location: vscode.ProgressLocation.Notification,
+                    title: 'Loading pipelines for export...'
+                }, () => Promise.all(pipelineIds.map(id => getPipelineOrCached(id))));
+
+                const missing = pipelineIds.filter((_, index) => !pipelines[index]);
+                if (missing.length > 0) {
+                    vscode.window.showErrorMessage(`Pipeline ${missing[0]} not found`);
+                    return;
                 }
+                content = exportPipelines(pipelines.map(pipeline => pipeline!), format.info.format);
+            } catch (error: any) {
+                vscode.window.showErrorMessage(`Failed to export pipelines: ${error.message}`);
+                return;
+            }
+
+            if (destination.target === 'clipboard') {
+                await vscode.env.clipboard.writeText(content);
+                vscode.window.showInformationMessage(`${format.label} export copied to the clipboard.`);
+                return;
+            }
+
+            const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+            const fileName = pipelineIds.length === 1
+                ? `pipeline-${pipelineIds[0].slice(0, 8)}.${format.info.extension}`
+                : `pipelines-${new Date().toISOString().slice(0, 10)}.${format.info.extension}`;
+            const target = await vscode.window.showSaveDialog({
+                defaultUri: folder ? vscode.Uri.joinPath(folder, fileName) : undefined,
+                filters: { [format.label]: [format.info.extension] },
+                saveLabel: 'Export'
             });
+            if (!target) {
+                return;
+            }
+            try {
+                await vscode.workspace.fs.writeFile(target, Buffer.from(content, 'utf8'));
+                vscode.window.showInformationMessage(`Exported to ${vscode.workspace.asRelativePath(target)}`);
+            } catch (error: any) {
+                vscode.window.showErrorMessage(`Failed to export pipelines: ${error.message}`);
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('thinkube-cicd.cancelPipeline', async (arg: any) => {
+            const pipelineId = resolvePipelineId(arg);
+            if (!pipelineId) {
+                vscode.window.showErrorMessage('Pipeline ID not provided');
+                return;
+            }
+
+            const appName = pipelineProvider.getPipeline(pipelineId)?.appName || pipelineId;
+            const confirmed = await vscode.window.showWarningMessage(
+                `Cancel the running pipeline for ${appName}?`,
+                { modal: true },
+                'Cancel Pipeline'
+            );
+            if (confirmed !== 'Cancel Pipeline') {
+                return;
+            }
+
+            const revert = pipelineProvider.applyOptimisticStatus(pipelineId, PipelineStatus.CANCELLED);
+            try {
+                await apiFor(pipelineId).cancelPipeline(pipelineId);
+                vscode.window.showInformationMessage(`Pipeline for ${appName} cancelled`);
+            } catch (error: any) {
+                revert();
+                vscode.window.showErrorMessage(`Failed to cancel pipeline: ${error.message}`);
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('thinkube-cicd.retryPipeline', async (arg: any) => {
+            const pipelineId = resolvePipelineId(arg);
+            if (!pipelineId) {
+                vscode.window.showErrorMessage('Pipeline ID not provided');
+                return;
+            }
+
+            const api = apiFor(pipelineId);
+            let pipeline: Pipeline | null;
+            try {
+                pipeline = await api.getPipeline(pipelineId);
+            } catch (error: any) {
+                vscode.window.showErrorMessage(`Failed to load pipeline: ${error.message}`);
+                return;
+            }
+            if (!pipeline) {
+                vscode.window.showErrorMessage(`Pipeline ${pipelineId} not found`);
+                return;
+            }
+            if (pipeline.status === PipelineStatus.RUNNING || pipeline.status === PipelineStatus.PENDING) {
+                vscode.window.showWarningMessage('Wait for the pipeline to finish or cancel it before retrying it.');
+                return;
+            }
+
+            const confirmed = await vscode.window.showWarningMessage(
+                `Retry the pipeline for ${pipeline.appName}?`,
+                { modal: true },
+                'Retry'
+            );
+            if (confirmed !== 'Retry') {
+                return;
+            }
+
+            const revert = pipelineProvider.applyOptimisticStatus(pipelineId, PipelineStatus.PENDING);
+            try {
+                const newPipelineId = await api.retryPipeline(pipelineId);
+                if (newPipelineId !== pipelineId) {
+                    // The retry runs as a new pipeline, so the original keeps its status
+                    revert();
+                }
+                context.subscriptions.push(followTriggeredPipeline(newPipelineId, api, pipelineProvider));
+            } catch (error: any) {
+                revert();
+                vscode.window.showErrorMessage(`Failed to retry pipeline: ${error.message}`);
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('thinkube-cicd.rerunFromStage', async (arg: any) => {
+            let pipelineId: string | undefined;
+            let stageName: string | undefined;
+
+            // Called either on a StageItem (stage known) or a PipelineItem (ask for the stage)
+            if (arg instanceof StageItem) {
+                pipelineId = arg.pipelineId;
+                stageName = arg.stage;
+            } else {
+                pipelineId = resolvePipelineId(arg);
+            }
+            if (!pipelineId) {
+                vscode.window.showErrorMessage('Pipeline ID not provided');
+                return;
+            }
+
+            const api = apiFor(pipelineId);
+            let pipeline: Pipeline | null;
+            try {
+                pipeline = await api.getPipeline(pipelineId);
+            } catch (error: any) {
+                vscode.window.showErrorMessage(`Failed to load pipeline: ${error.message}`);
+                return;
+            }
+            if (!pipeline) {
+                vscode.window.showErrorMessage(`Pipeline ${pipelineId} not found`);
+                return;
+            }
+            if (pipeline.status === PipelineStatus.RUNNING || pipeline.status === PipelineStatus.PENDING) {
+                vscode.window.showWarningMessage('Wait for the pipeline to finish or cancel it before re-running a stage.');
+                return;
+            }
+
+            if (!stageName) {
+                const stages = [...pipeline.stages].sort((a, b) => a.startedAt - b.startedAt);
+                const picked = await vscode.window.showQuickPick(
+                    stages.map(stage => ({ label: stage.stageName, description: stage.status })),
+                    { placeHolder: 'Select the stage to re-run from' }
+                );
+                if (!picked) {
+                    return;
+                }
+                stageName = picked.label;
+            }
+
+            const confirmed = await vscode.window.showWarningMessage(
+                `Re-run the ${pipeline.appName} pipeline starting from ${stageName}?`,
+                { modal: true },
+                'Re-run'
+            );
+            if (confirmed !== 'Re-run') {
+                return;
+            }
+
+            const revert = pipelineProvider.applyOptimisticStatus(pipelineId, PipelineStatus.PENDING, stageName);
+            try {
+                const newPipelineId = await api.rerunFromStage(pipelineId, stageName);
+                if (newPipelineId !== pipelineId) {
+                    revert();
+                }
+                context.subscriptions.push(followTriggeredPipeline(newPipelineId, api, pipelineProvider));
+            } catch (error: any) {
+                revert();
+                vscode.window.showErrorMessage(`Failed to re-run pipeline: ${error.message}`);
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('thinkube-cicd.configureToken', async () => {
+            const token = await authProvider.promptForToken();
             
             if (token !== undefined) {
-                await vscode.workspace.getConfiguration('thinkube-cicd').update('apiToken', token, true);
                 if (token) {
+                    await authProvider.setToken(token);
                     vscode.window.showInformationMessage('API token configured successfully. Refreshing...');
-                    pipelineProvider.refresh();
                 } else {
+                    await authProvider.clearToken();
                     vscode.window.showInformationMessage('API token removed.');
                 }
             }
         })
     );
 
+    // Refresh whenever the token changes, including sign-out from the Accounts menu
+    context.subscriptions.push(
+        authProvider.onDidChangeSessions(() => pipelineProvider.refresh())
+    );
+
+    // Show the Thinkube account (or a sign-in entry) in the Accounts menu
+    vscode.authentication.getSession(ThinkubeAuthenticationProvider.id, [], { createIfNone: false })
+        .then(undefined, error => console.warn('Could not query Thinkube session:', error));
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('thinkube-cicd.switchProfile', async () => {
+            const active = profileManager.getActiveProfile();
+            const editLabel = '$(gear) Edit connection profiles...';
+            const picked = await vscode.window.showQuickPick(
+                [
+                    ...profileManager.getProfiles().map(profile => ({
+                        label: profile.name,
+                        description: profile.name === active.name ? `${profile.apiUrl} (active)` : profile.apiUrl,
+                        detail: profile.defaultApp ? `Default app: ${profile.defaultApp}` : undefined
+                    })),
+                    { label: editLabel }
+                ],
+                { placeHolder: 'Select the Thinkube environment to connect to' }
+            );
+
+            if (!picked) {
+                return;
+            }
+            if (picked.label === editLabel) {
+                vscode.commands.executeCommand('workbench.action.openSettings', 'thinkube-cicd.profiles');
+                return;
+            }
+            await profileManager.setActiveProfile(picked.label);
+        })
+    );
+
+    context.subscriptions.push(new ProfileStatusBar(profileManager));
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('thinkube-cicd.mockInjectFault', async () => {
+            if (!mockHub) {
+                vscode.window.showInformationMessage('Faults can only be injected in mock mode.');
+                return;
+            }
+            const hub = mockHub;
+            const faults = [
+                { label: 'Start a pipeline', run: () => { hub.startPipeline(); } },
+                { label: 'Fail the next stage', run: () => hub.failNextStage() },
+                {
+                    label: hub.isUnauthorized() ? 'Accept the API token again' : 'Reject the API token (401)',
+                    run: () => hub.setUnauthorized(!hub.isUnauthorized())
+                },
+                {
+                    label: hub.isUnreachable() ? 'Make the Control Hub reachable again' : 'Make the Control Hub unreachable',
+                    run: () => hub.setUnreachable(!hub.isUnreachable())
+                },
+                { label: 'Drop the realtime connection for 10 seconds', run: () => hub.disconnectSocket(10) },
+                { label: 'Send a malformed event', run: () => hub.sendMalformedEvent() }
+            ];
+            const picked = await vscode.window.showQuickPick(faults, { placeHolder: 'What should the mock Control Hub do?' });
+            if (!picked) {
+                return;
+            }
+            picked.run();
+            pipelineProvider.refresh();
+        })
+    );
+
+    const notifications = new NotificationEngine(context.globalState, pipelineId => pipelineProvider.getPipeline(pipelineId));
+    context.subscriptions.push(
+        notifications,
+        new DoNotDisturbStatusBar(notifications),
+        vscode.commands.registerCommand('thinkube-cicd.toggleDoNotDisturb', async () => {
+            const enabled = !notifications.isDoNotDisturb();
+            await notifications.setDoNotDisturb(enabled);
+            vscode.window.setStatusBarMessage(
+                enabled ? 'Pipeline notifications paused' : 'Pipeline notifications resumed',
+                3000
+            );
+        })
+    );
+
+    // Latest pipeline of the workspace's application, kept live over the WebSocket
+    const appStatusBar = new AppStatusBar(profileManager, () => controlHubAPI);
+    context.subscriptions.push(
+        appStatusBar,
+        appStatusBar.onDidChangeLatestPipeline(pipeline => {
+            if (pipeline.status === PipelineStatus.RUNNING || pipeline.status === PipelineStatus.PENDING) {
+                websocketManager.trackPipeline(pipeline.id);
+            }
+        })
+    );
+
+    // Mark pipelines built from the workspace's HEAD commit
+    const commitLinker = new CommitPipelineLinker(profileManager, context.workspaceState, () => controlHubAPI);
+    context.subscriptions.push(
+        commitLinker,
+        commitLinker.onDidChangeHead(head => pipelineProvider.setHead(head))
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('thinkube-cicd.showPipelineForCommit', async (...args: any[]) => {
+            // Called from the Source Control graph or the timeline, or from the palette
+            const commit = commitFromCommandArgs(args) || await commitLinker.pickRecentCommit();
+            if (!commit) {
+                return;
+            }
+
+            const appName = await resolveWorkspaceApp(profileManager.getActiveProfile());
+            const found = await findPipelinesForCommit(controlHubAPI, commit, appName ? { appName } : {});
+            if (!found) {
+                vscode.window.showErrorMessage('Could not reach the Control Hub to look up pipelines.');
+                return;
+            }
+            const pipelines = found.pipelines;
+            if (pipelines.length === 0) {
+                vscode.window.showInformationMessage(found.complete
+                    ? `No pipeline found for commit ${commit.slice(0, 7)}.`
+                    : `No pipeline found for commit ${commit.slice(0, 7)} among the most recent pipelines.`);
+                return;
+            }
+
+            let pipelineId = pipelines[0].id;
+            if (pipelines.length > 1) {
+                const picked = await vscode.window.showQuickPick(
+                    pipelines.map(pipeline => ({
+                        label: pipeline.appName,
+                        description: `${pipeline.status} - ${new Date(pipeline.startTime * 1000).toLocaleString()}`,
+                        detail: pipeline.trigger.branch,
+                        pipelineId: pipeline.id
+                    })),
+                    { placeHolder: `Pipelines for commit ${commit.slice(0, 7)}` }
+                );
+                if (!picked) {
+                    return;
+                }
+                pipelineId = picked.pipelineId;
+            }
+            vscode.commands.executeCommand('thinkube-cicd.showTimeline', pipelineId);
+        })
+    );
+
+    const rebuildClients = (profile: ConnectionProfile) => {
+        websocketSubscription?.dispose();
+        websocketManager.dispose();
+
+        controlHubAPI = createApi(profile);
+        websocketManager = createWebSocketManager(controlHubAPI);
+        pipelineProvider.setApis(getTreeApis());
+        websocketSubscription = setupWebSocket(pipelineProvider, appStatusBar, notifications, recorder);
+    };
+
+    // Rebuild the clients when the active profile (or its URL) changes
+    context.subscriptions.push(
+        profileManager.onDidChangeActiveProfile(async profile => {
+            rebuildClients(profile);
+
+            if (!mockHub && !(await authProvider.getToken(profile.name))) {
+                vscode.window.showWarningMessage(
+                    `No API token configured for "${profile.name}".`,
+                    'Configure Token'
+                ).then(selection => {
+                    if (selection === 'Configure Token') {
+                        vscode.commands.executeCommand('thinkube-cicd.configureToken');
+                    }
+                });
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeConfiguration(async e => {
+            if (e.affectsConfiguration('thinkube-cicd.showAllProfiles')) {
+                pipelineProvider.setApis(getTreeApis());
+            }
+            if (e.affectsConfiguration('thinkube-cicd.tls') || e.affectsConfiguration('http.proxy') ||
+                e.affectsConfiguration('http.proxyStrictSSL') || e.affectsConfiguration('http.noProxy')) {
+                const wasInsecure = transport.insecure;
+                transport = await loadConnectionTransport();
+                if (transport.insecure && !wasInsecure) {
+                    vscode.window.showWarningMessage(
+                        'Control Hub certificates are no longer verified. Anyone between you and the cluster can read your API token.'
+                    );
+                }
+                rebuildClients(profileManager.getActiveProfile());
+            }
+            if (e.affectsConfiguration('thinkube-cicd.mockMode')) {
+                vscode.window.showInformationMessage(
+                    'Reload the window to switch mock mode on or off.',
+                    'Reload Window'
+                ).then(selection => {
+                    if (selection === 'Reload Window') {
+                        vscode.commands.executeCommand('workbench.action.reloadWindow');
+                    }
+                });
+            }
+        }),
+        profileManager.onDidChangeProfiles(() => {
+            if (getTreeApis().length > 1) {
+                pipelineProvider.setApis(getTreeApis());
+            }
+        })
+    );
+
     // Set up auto-refresh
     const refreshInterval = vscode.workspace.getConfiguration('thinkube-cicd').get('refreshInterval', 5000);
     const refreshTimer = setInterval(() => {
-        if (pipelineProvider.isVisible()) {
+        // While connected, realtime events keep the tree current; polling is the fallback
+        if (pipelineProvider.isVisible() && websocketManager.getConnectionState() !== 'connected') {
             pipelineProvider.refresh();
         }
     }, refreshInterval);
@@ -136,17 +901,171 @@ export function activate(context: vscode.ExtensionContext) {
         dispose: () => clearInterval(refreshTimer)
     });
 
+    // A laptop waking up or a VPN coming back usually shows up as the window regaining focus
+    context.subscriptions.push(
+        vscode.window.onDidChangeWindowState(state => {
+            if (state.focused && pipelineProvider.isStale()) {
+                pipelineProvider.refresh();
+            }
+        })
+    );
+
+    // Track pipelines when tree items are expanded
+    pipelineProvider.on('pipelineExpanded', (pipelineId: string) => {
+        websocketManager.trackPipeline(pipelineId);
+    });
+
+    const recordingStatusBar = new RecordingStatusBar(recorder);
+    context.subscriptions.push(recordingStatusBar);
+
+    const updateRecordingState = () => {
+        vscode.commands.executeCommand('setContext', 'thinkube-cicd.recording', recorder.isRecording());
+        vscode.commands.executeCommand('setContext', 'thinkube-cicd.replaying', !!replayer);
+    };
+    updateRecordingState();
+    context.subscriptions.push(recorder.onDidChangeRecording(() => updateRecordingState()));
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('thinkube-cicd.startRecording', async () => {
+            if (recorder.isRecording()) {
+                return;
+            }
+            const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+            const fileName = `thinkube-cicd-${new Date().toISOString().slice(0, 19).replace(/:/g, '-')}.jsonl`;
+            const target = await vscode.window.showSaveDialog({
+                defaultUri: folder ? vscode.Uri.joinPath(folder, fileName) : undefined,
+                filters: { 'Recording': ['jsonl'] },
+                saveLabel: 'Start Recording'
+            });
+            if (!target) {
+                return;
+            }
+            try {
+                await recorder.start(target, controlHubAPI.profile);
+            } catch (error: any) {
+                vscode.window.showErrorMessage(`Failed to start recording: ${error.message}`);
+                return;
+            }
+            // Record the current state along with what changes from here on
+            pipelineProvider.refresh();
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('thinkube-cicd.stopRecording', async () => {
+            const result = await recorder.stop();
+            if (!result) {
+                return;
+            }
+            const selection = await vscode.window.showInformationMessage(
+                `Recorded ${result.entryCount} messages and responses to ${vscode.workspace.asRelativePath(result.uri)}`,
+                'Open Recording'
+            );
+            if (selection === 'Open Recording') {
+                vscode.window.showTextDocument(result.uri);
+            }
+        })
+    );
+
+    const stopReplay = () => {
+        if (!replayer) {
+            return;
+        }
+        replayer.dispose();
+        replayer = undefined;
+        recordingStatusBar.setReplayer(undefined);
+        updateRecordingState();
+        rebuildClients(profileManager.getActiveProfile());
+    };
+    context.subscriptions.push({ dispose: () => replayer?.dispose() });
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('thinkube-cicd.replayRecording', async (uri?: vscode.Uri) => {
+            if (!uri) {
+                const picked = await vscode.window.showOpenDialog({
+                    canSelectMany: false,
+                    filters: { 'Recording': ['jsonl'] },
+                    openLabel: 'Replay'
+                });
+                if (!picked || picked.length === 0) {
+                    return;
+                }
+                uri = picked[0];
+            }
+
+            const speed = await vscode.window.showQuickPick(
+                REPLAY_SPEEDS.map(speed => ({
+                    label: speed === 1 ? 'Real time' : `${speed}x`,
+                    description: speed === 1 ? 'As recorded' : `${speed} times faster`,
+                    speed
+                })),
+                { placeHolder: 'Replay speed' }
+            );
+            if (!speed) {
+                return;
+            }
+
+            let next: RecordingReplayer;
+            try {
+                next = await RecordingReplayer.load(uri, speed.speed);
+            } catch (error: any) {
+                vscode.window.showErrorMessage(`Failed to load recording: ${error.message}`);
+                return;
+            }
+
+            replayer?.dispose();
+            replayer = next;
+            next.on('finished', () => {
+                vscode.window.showInformationMessage(
+                    `Replay finished after ${next.getMessageCount()} messages.`,
+                    'Return to Live'
+                ).then(selection => {
+                    if (selection === 'Return to Live' && replayer === next) {
+                        stopReplay();
+                    }
+                });
+            });
+            recordingStatusBar.setReplayer(next);
+            updateRecordingState();
+            rebuildClients(profileManager.getActiveProfile());
+            next.start();
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('thinkube-cicd.stopReplay', () => stopReplay())
+    );
+
     // Set up WebSocket connection for real-time updates
-    setupWebSocket(context, pipelineProvider);
+    websocketSubscription = setupWebSocket(pipelineProvider, appStatusBar, notifications, recorder);
+
+    // Cleanup on deactivation (the manager is replaced when the profile changes)
+    context.subscriptions.push({
+        dispose: () => {
+            websocketSubscription?.dispose();
+            websocketManager.dispose();
+        }
+    });
+
+    if (mockHub) {
+        vscode.window.showInformationMessage(
+            'CI/CD Monitor is in mock mode: pipelines come from a simulated Control Hub.',
+            'Inject Fault'
+        ).then(selection => {
+            if (selection === 'Inject Fault') {
+                vscode.commands.executeCommand('thinkube-cicd.mockInjectFault');
+            }
+        });
+        return;
+    }
 
     // Check API connection and authentication
-    controlHubAPI.testConnection().then(connected => {
+    controlHubAPI.testConnection().then(async connected => {
         if (connected) {
             // Check if we have authentication
-            const config = vscode.workspace.getConfiguration('thinkube-cicd');
-            const apiToken = config.get<string>('apiToken');
+            const apiToken = await authProvider.getToken();
             
-            if (apiToken && apiToken.startsWith('tk_')) {
+            if (apiToken) {
                 vscode.window.showInformationMessage('CI/CD Monitor authenticated and ready');
             } else {
                 vscode.window.showWarningMessage(
@@ -164,52 +1083,118 @@ export function activate(context: vscode.ExtensionContext) {
     });
 }
 
-async function setupWebSocket(
-    context: vscode.ExtensionContext, 
-    pipelineProvider: PipelineTreeProvider
-) {
-    // Connect to WebSocket for real-time pipeline updates
-    const websocketManager = new WebSocketManager(controlHubAPI);
-    
+/** Connects the current websocketManager to the views; dispose the result before replacing the manager. */
+function setupWebSocket(
+    pipelineProvider: PipelineTreeProvider,
+    appStatusBar: AppStatusBar,
+    notifications: NotificationEngine,
+    recorder: EventRecorder
+): vscode.Disposable {
+    const manager = websocketManager;
+
+    // Messages are recorded as received, before validation
+    const onRawMessage = (message: unknown, pipelineId?: string) => {
+        recorder.recordMessage(message, pipelineId);
+    };
+    manager.on('rawMessage', onRawMessage);
+
     // When receiving events, refresh the views
-    websocketManager.on('pipelineEvent', (event) => {
-        // Show notification based on event type and settings
-        const config = vscode.workspace.getConfiguration('thinkube-cicd');
-        const showNotifications = config.get<boolean>('showNotifications', true);
-        const notificationLevel = config.get<string>('notificationLevel', 'failures');
-        
-        if (showNotifications && event && event.status && event.eventType) {
-            const shouldNotify = notificationLevel === 'all' || 
-                (notificationLevel === 'failures' && ['failed', 'error'].includes(event.status));
-            
-            if (shouldNotify) {
-                const message = `${event.appName || event.component}: ${event.eventType} - ${event.status}`;
-                if (event.status === 'failed' || event.status === 'error') {
-                    vscode.window.showErrorMessage(message);
-                } else {
-                    vscode.window.showInformationMessage(message);
-                }
-            }
-        }
-        
-        // Refresh the view
-        pipelineProvider.refresh();
-    });
+    const onPipelineEvent = (event: PipelineEvent) => {
+        // Update just the affected pipeline in the tree
+        pipelineProvider.applyEvent(event);
+        appStatusBar.handleEvent(event);
+        PipelineTimelinePanel.applyEvent(event);
+
+        // After the tree, so notifications see the pipeline with this event applied
+        notifications.handleEvent(event);
+    };
+    manager.on('pipelineEvent', onPipelineEvent);
     
-    // Track pipelines when tree items are expanded
-    pipelineProvider.on('pipelineExpanded', (pipelineId: string) => {
-        websocketManager.trackPipeline(pipelineId);
+    // Catch up on what happened while disconnected as soon as the Control Hub is reachable again
+    const stateSubscription = manager.onDidChangeConnectionState(state => {
+        if (state !== 'connected') {
+            return;
+        }
+        if (pipelineProvider.isStale()) {
+            pipelineProvider.refresh();
+        } else {
+            pipelineProvider.reconcile();
+        }
     });
-    
+
     // Connect to WebSocket
-    await websocketManager.connect();
-    
-    // Cleanup on deactivation
-    context.subscriptions.push({
-        dispose: () => websocketManager.disconnect()
+    manager.connect();
+
+    return new vscode.Disposable(() => {
+        manager.off('rawMessage', onRawMessage);
+        manager.off('pipelineEvent', onPipelineEvent);
+        stateSubscription.dispose();
     });
 }
 
+/**
+ * Commands receive either a PipelineItem (tree inline/context menu) or a
+ * pipeline ID string (tree item click or programmatic call).
+ */
+function resolvePipelineId(arg: any): string | undefined {
+    if (arg && arg.pipeline && arg.pipeline.id) {
+        return arg.pipeline.id;
+    }
+    if (typeof arg === 'string') {
+        return arg;
+    }
+    return undefined;
+}
+
+/**
+ * api is the client the pipeline was started on, which may not be the
+ * active profile's. Disposing the result stops following the pipeline.
+ */
+function followTriggeredPipeline(pipelineId: string, api: ControlHubAPI, pipelineProvider: PipelineTreeProvider): vscode.Disposable {
+    pipelineProvider.highlightPipeline(pipelineId);
+    // The manager may be replaced by a profile switch before the pipeline starts
+    const manager = websocketManager;
+    manager.trackPipeline(pipelineId);
+
+    let done = false;
+    const finish = (open: boolean) => {
+        if (done) {
+            return;
+        }
+        done = true;
+        manager.off('pipelineEvent', onEvent);
+        clearInterval(pollTimer);
+        clearTimeout(giveUpTimer);
+        if (open) {
+            vscode.commands.executeCommand('thinkube-cicd.showPipeline', pipelineId);
+        }
+    };
+
+    // The first event for the pipeline means it has started
+    const onEvent = (event: PipelineEvent) => {
+        if (event.pipelineId === pipelineId) {
+            finish(true);
+        }
+    };
+    manager.on('pipelineEvent', onEvent);
+
+    // Events sent before the socket connected are lost, so poll as well
+    const pollTimer = setInterval(async () => {
+        try {
+            const pipeline = await api.getPipeline(pipelineId);
+            if (pipeline && pipeline.status !== PipelineStatus.PENDING) {
+                finish(true);
+            }
+        } catch (error) {
+            console.warn(`Could not poll triggered pipeline ${pipelineId}:`, error);
+        }
+    }, TRIGGER_POLL_INTERVAL);
+
+    const giveUpTimer = setTimeout(() => finish(false), TRIGGER_FOLLOW_TIMEOUT);
+
+    return new vscode.Disposable(() => finish(false));
+}
+
 export function deactivate() {
     // Cleanup if needed
 }
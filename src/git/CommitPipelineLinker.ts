@@ -0,0 +1,253 @@
+import * as vscode from 'vscode';
+import { ControlHubAPI } from '../api/ControlHubAPI';
+import { Pipeline, PipelineFilter } from '../models/Pipeline';
+import { ProfileManager } from '../profiles/ProfileManager';
+import { GitAPI, Repository, getGitApi, getWorkspaceRepository, isSameCommit } from './git';
+import { resolveWorkspaceApp } from './workspaceApp';
+
+// Pipelines normally show up within seconds of a push; only warn after this long
+const MISSING_PIPELINE_GRACE = 60000;
+// How many pipelines are searched for a commit
+const COMMIT_SEARCH_LIMIT = 50;
+const CHECKED_COMMITS_STATE_KEY = 'thinkube-cicd.checkedCommits';
+// Commits remembered as checked, so reloading the window doesn't warn again
+const MAX_CHECKED_COMMITS = 100;
+
+/** The commit and branch checked out in the workspace, and the application it builds. */
+export interface WorkspaceHead {
+    commit: string;
+    branch?: string;
+    appName?: string;
+}
+
+/** Built from the HEAD commit, or from another commit of the application's HEAD branch. */
+export type HeadMatch = 'commit' | 'branch';
+
+export function matchWorkspaceHead(pipeline: Pipeline, head: WorkspaceHead | undefined): HeadMatch | undefined {
+    if (!head) {
+        return undefined;
+    }
+    if (isSameCommit(pipeline.trigger.commit, head.commit)) {
+        return 'commit';
+    }
+    // Branch names repeat across applications, so only the workspace's application counts
+    if (head.branch && head.appName && pipeline.appName === head.appName && pipeline.trigger.branch === head.branch) {
+        return 'branch';
+    }
+    return undefined;
+}
+
+export interface CommitPipelines {
+    pipelines: Pipeline[];     // Newest first
+    complete: boolean;         // False when only the newest pipelines could be searched
+}
+
+/**
+ * Pipelines built from a commit. Returns undefined when the Control Hub
+ * could not be reached, as opposed to there being none.
+ */
+export async function findPipelinesForCommit(
+    api: ControlHubAPI,
+    commit: string,
+    filter: PipelineFilter = {}
+): Promise<CommitPipelines | undefined> {
+    const result = await api.listPipelines({ ...filter, commit }, COMMIT_SEARCH_LIMIT);
+    if (!result.ok) {
+        return undefined;
+    }
+    const page = result.value;
+    const pipelines = page.pipelines.filter(pipeline => isSameCommit(pipeline.trigger.commit, commit));
+    // Servers that ignore the commit filter return every pipeline, of which we only saw a page
+    const filterIgnored = pipelines.length < page.pipelines.length;
+    return { pipelines, complete: !filterIgnored || page.pipelines.length >= page.total };
+}
+
+/**
+ * Finds the commit SHA in the arguments of a menu command. Timeline items
+ * carry it as their id, Source Control graph items as id or hash.
+ */
+export function commitFromCommandArgs(args: any[]): string | undefined {
+    for (const arg of args) {
+        const candidate = typeof arg === 'string' ? arg : arg && (arg.hash || arg.id);
+        if (typeof candidate === 'string' && /^[0-9a-f]{7,40}$/i.test(candidate)) {
+            return candidate;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Follows HEAD of the workspace repository: reports its commit and branch so
+ * the tree can mark pipelines built from them, and warns once per commit
+ * when a pushed HEAD of a Control Hub application never got a pipeline.
+ */
+export class CommitPipelineLinker implements vscode.Disposable {
+    private _onDidChangeHead = new vscode.EventEmitter<WorkspaceHead | undefined>();
+    readonly onDidChangeHead = this._onDidChangeHead.event;
+
+    private _disposables: vscode.Disposable[] = [];
+    private _git: GitAPI | undefined;
+    private _repository: Repository | undefined;
+    private _repositoryListener: vscode.Disposable | undefined;
+    private _headCommit: string | undefined;
+    private _headBranch: string | undefined;
+    private _headRequestId = 0;
+    private _checkTimer: NodeJS.Timeout | null = null;
+    private _checkedCommits: Set<string>;
+
+    constructor(
+        private readonly profiles: ProfileManager,
+        private readonly workspaceState: vscode.Memento,
+        private readonly getApi: () => ControlHubAPI
+    ) {
+        this._checkedCommits = new Set(workspaceState.get<string[]>(CHECKED_COMMITS_STATE_KEY, []));
+        this._disposables.push(
+            this._onDidChangeHead,
+            // The application may be the profile's defaultApp
+            profiles.onDidChangeActiveProfile(() => this.publishHead())
+        );
+
+        getGitApi().then(git => {
+            if (!git) {
+                return;
+            }
+            this._git = git;
+            this._disposables.push(
+                git.onDidOpenRepository(() => this.attach()),
+                git.onDidCloseRepository(() => this.attach())
+            );
+            this.attach();
+        });
+    }
+
+    getHeadCommit(): string | undefined {
+        return this._headCommit;
+    }
+
+    /** Lets the user pick one of the repository's recent commits. */
+    async pickRecentCommit(): Promise<string | undefined> {
+        if (!this._repository) {
+            vscode.window.showWarningMessage('No git repository is open in this workspace.');
+            return undefined;
+        }
+
+        const commits = await this._repository.log({ maxEntries: 30 });
+        const picked = await vscode.window.showQuickPick(
+            commits.map(commit => ({
+                label: commit.message.split('\n')[0],
+                description: commit.hash.slice(0, 7),
+                detail: commit.authorName,
+                hash: commit.hash
+            })),
+            { placeHolder: 'Select a commit', matchOnDescription: true }
+        );
+        return picked?.hash;
+    }
+
+    dispose() {
+        this.clearCheckTimer();
+        this._repositoryListener?.dispose();
+        while (this._disposables.length) {
+            const x = this._disposables.pop();
+            if (x) {
+                x.dispose();
+            }
+        }
+    }
+
+    private attach() {
+        const repository = this._git && getWorkspaceRepository(this._git);
+        if (repository === this._repository) {
+            return;
+        }
+        this._repositoryListener?.dispose();
+        this._repository = repository;
+        this._repositoryListener = repository?.state.onDidChange(() => this.update());
+        this.update();
+    }
+
+    private update() {
+        const head = this._repository?.state.HEAD;
+        const commit = head?.commit;
+
+        if (commit !== this._headCommit || head?.name !== this._headBranch) {
+            if (commit !== this._headCommit) {
+                this.clearCheckTimer();
+            }
+            this._headCommit = commit;
+            this._headBranch = head?.name;
+            this.publishHead();
+        }
+
+        // Pushed means the upstream branch has everything HEAD has
+        const pushed = !!head && !!head.upstream && head.ahead === 0;
+        if (commit && pushed && !this._checkedCommits.has(commit) && !this._checkTimer) {
+            this._checkTimer = setTimeout(() => {
+                this._checkTimer = null;
+                this.checkForPipeline(commit, head!.name);
+            }, MISSING_PIPELINE_GRACE);
+        }
+    }
+
+    private async publishHead() {
+        const requestId = ++this._headRequestId;
+        const commit = this._headCommit;
+        const branch = this._headBranch;
+        const appName = commit && branch ? await resolveWorkspaceApp(this.profiles.getActiveProfile()) : undefined;
+        // HEAD may have moved again while the application was resolved
+        if (requestId !== this._headRequestId) {
+            return;
+        }
+        this._onDidChangeHead.fire(commit ? { commit, branch, appName } : undefined);
+    }
+
+    private async checkForPipeline(commit: string, branch: string | undefined) {
+        if (commit !== this._headCommit) {
+            return;
+        }
+        this.rememberChecked(commit);
+
+        // Without an application, every repository would be expected to have pipelines
+        const appName = await resolveWorkspaceApp(this.profiles.getActiveProfile());
+        if (!appName) {
+            return;
+        }
+        const api = this.getApi();
+        let applications: string[];
+        try {
+            applications = await api.listApplications();
+        } catch {
+            return; // Unreachable
+        }
+        if (!applications.includes(appName)) {
+            return; // Not a Thinkube application
+        }
+
+        const found = await findPipelinesForCommit(api, commit, { appName });
+        if (!found || found.pipelines.length > 0 || !found.complete) {
+            return; // Unreachable, there is a pipeline, or it may be older than the pipelines searched
+        }
+
+        const selection = await vscode.window.showWarningMessage(
+            `Commit ${commit.slice(0, 7)}${branch ? ` on ${branch}` : ''} was pushed, but no pipeline was started for it.`,
+            'Trigger Build'
+        );
+        if (selection === 'Trigger Build') {
+            vscode.commands.executeCommand('thinkube-cicd.triggerBuild');
+        }
+    }
+
+    private rememberChecked(commit: string) {
+        this._checkedCommits.add(commit);
+        const checked = Array.from(this._checkedCommits).slice(-MAX_CHECKED_COMMITS);
+        this._checkedCommits = new Set(checked);
+        this.workspaceState.update(CHECKED_COMMITS_STATE_KEY, checked);
+    }
+
+    private clearCheckTimer() {
+        if (this._checkTimer) {
+            clearTimeout(this._checkTimer);
+            this._checkTimer = null;
+        }
+    }
+}
@@ -0,0 +1,98 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+// The parts of the built-in git extension's API (extensions/git/src/api/git.d.ts) this extension uses
+
+export interface Remote {
+    readonly name: string;
+    readonly fetchUrl?: string;
+    readonly pushUrl?: string;
+}
+
+export interface UpstreamRef {
+    readonly remote: string;
+    readonly name: string;
+    readonly commit?: string;
+}
+
+export interface Branch {
+    readonly name?: string;
+    readonly commit?: string;
+    readonly upstream?: UpstreamRef;
+    readonly ahead?: number;
+    readonly behind?: number;
+}
+
+export interface Commit {
+    readonly hash: string;
+    readonly message: string;
+    readonly authorName?: string;
+    readonly authorDate?: Date;
+}
+
+export interface RepositoryState {
+    readonly HEAD: Branch | undefined;
+    readonly remotes: Remote[];
+    readonly onDidChange: vscode.Event<void>;
+}
+
+export interface Repository {
+    readonly rootUri: vscode.Uri;
+    readonly state: RepositoryState;
+    log(options?: { maxEntries?: number }): Promise<Commit[]>;
+}
+
+export interface GitAPI {
+    readonly repositories: Repository[];
+    readonly onDidOpenRepository: vscode.Event<Repository>;
+    readonly onDidCloseRepository: vscode.Event<Repository>;
+}
+
+interface GitExtension {
+    getAPI(version: 1): GitAPI;
+}
+
+/** Returns the git extension's API, or undefined if git is disabled or unavailable. */
+export async function getGitApi(): Promise<GitAPI | undefined> {
+    const extension = vscode.extensions.getExtension<GitExtension>('vscode.git');
+    if (!extension) {
+        return undefined;
+    }
+    try {
+        const exports = extension.isActive ? extension.exports : await extension.activate();
+        return exports.getAPI(1);
+    } catch (error) {
+        console.warn('Git extension API not available:', error);
+        return undefined;
+    }
+}
+
+/** The repository containing the first workspace folder, or the first one open. */
+export function getWorkspaceRepository(git: GitAPI): Repository | undefined {
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    if (folder) {
+        const repository = git.repositories.find(repo =>
+            folder.uri.fsPath === repo.rootUri.fsPath || folder.uri.fsPath.startsWith(repo.rootUri.fsPath + path.sep)
+        );
+        if (repository) {
+            return repository;
+        }
+    }
+    return git.repositories[0];
+}
+
+/** Whether two SHAs name the same commit; either may be abbreviated (at least 7 characters). */
+export function isSameCommit(a: string | undefined, b: string | undefined): boolean {
+    if (!a || !b || a.length < 7 || b.length < 7) {
+        return false;
+    }
+    const left = a.toLowerCase();
+    const right = b.toLowerCase();
+    return left.startsWith(right) || right.startsWith(left);
+}
+
+/** "https://host/org/my-app.git" or "git@host:org/my-app.git" -> "my-app" */
+export function repositoryNameFromUrl(url: string): string | undefined {
+    const match = url.trim().match(/([^/:]+?)(?:\.git)?\/?$/);
+    return match ? match[1] : undefined;
+}
@@ -0,0 +1,24 @@
+import { ConnectionProfile } from '../profiles/ProfileManager';
+import { getGitApi, getWorkspaceRepository, repositoryNameFromUrl } from './git';
+
+/**
+ * Works out which Thinkube application the open workspace belongs to: the
+ * profile's defaultApp if set, otherwise the name of the repository's
+ * origin remote (Thinkube apps are named after their repositories).
+ */
+export async function resolveWorkspaceApp(profile: ConnectionProfile): Promise<string | undefined> {
+    if (profile.defaultApp) {
+        return profile.defaultApp;
+    }
+
+    const git = await getGitApi();
+    const repository = git && getWorkspaceRepository(git);
+    if (!repository) {
+        return undefined;
+    }
+
+    const remotes = repository.state.remotes;
+    const remote = remotes.find(r => r.name === 'origin') || remotes[0];
+    const url = remote && (remote.fetchUrl || remote.pushUrl);
+    return url ? repositoryNameFromUrl(url) : undefined;
+}
@@ -0,0 +1,174 @@
+import * as vscode from 'vscode';
+import { ControlHubAPI } from '../api/ControlHubAPI';
+
+export const LOG_SCHEME = 'thinkube-log';
+const FOLLOWING_CONTEXT_KEY = 'thinkube-cicd.logFollowing';
+// How often running stages are asked for new output
+const LOG_POLL_INTERVAL = 2000;
+
+interface LogStream {
+    content: string;
+    offset: number;
+    complete: boolean;
+    error?: string;
+    follow: boolean;
+    timer: NodeJS.Timeout | null;
+}
+
+/**
+ * thinkube-log://<pipelineId>/<stageName>.log. The suffix gets the built-in
+ * Log language; switching the language later would close and reopen the
+ * document, which ends the stream.
+ */
+export function stageLogUri(pipelineId: string, stageName: string): vscode.Uri {
+    return vscode.Uri.from({ scheme: LOG_SCHEME, authority: pipelineId, path: `/${stageName}.log` });
+}
+
+function parseStageLogUri(uri: vscode.Uri): { pipelineId: string; stageName: string } {
+    return { pipelineId: uri.authority, stageName: uri.path.replace(/^\//, '').replace(/\.log$/, '') };
+}
+
+/**
+ * Serves stage logs as read-only documents. Logs of running stages are
+ * polled from the last offset and appended; while following, editors
+ * showing the log stay scrolled to the end.
+ */
+export class StageLogProvider implements vscode.TextDocumentContentProvider, vscode.Disposable {
+    private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+    readonly onDidChange = this._onDidChange.event;
+
+    private streams = new Map<string, LogStream>();
+    private _disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly apiFor: (pipelineId: string) => ControlHubAPI) {
+        this._disposables.push(
+            this._onDidChange,
+            vscode.workspace.registerTextDocumentContentProvider(LOG_SCHEME, this),
+            vscode.workspace.onDidCloseTextDocument(document => {
+                if (document.uri.scheme === LOG_SCHEME) {
+                    this.stopStream(document.uri);
+                }
+            }),
+            vscode.workspace.onDidChangeTextDocument(e => {
+                if (e.document.uri.scheme === LOG_SCHEME && this.streams.get(e.document.uri.toString())?.follow) {
+                    this.revealEnd(e.document);
+                }
+            }),
+            vscode.window.onDidChangeActiveTextEditor(() => this.updateFollowingContext())
+        );
+    }
+
+    async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        let stream = this.streams.get(uri.toString());
+        if (!stream) {
+            stream = { content: '', offset: 0, complete: false, follow: false, timer: null };
+            this.streams.set(uri.toString(), stream);
+            await this.poll(uri, stream, false);
+            // Only running stages are followed by default
+            stream.follow = !stream.complete;
+            this.updateFollowingContext();
+        }
+
+        if (stream.error) {
+            return `${stream.content}${stream.content ? '\n' : ''}[${stream.error}]`;
+        }
+        if (stream.complete && !stream.content) {
+            return '(no log output)';
+        }
+        return stream.content;
+    }
+
+    isFollowing(uri: vscode.Uri): boolean {
+        return this.streams.get(uri.toString())?.follow ?? false;
+    }
+
+    setFollowing(uri: vscode.Uri, follow: boolean): void {
+        const stream = this.streams.get(uri.toString());
+        if (!stream) {
+            return;
+        }
+        stream.follow = follow;
+        this.updateFollowingContext();
+
+        const document = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+        if (follow && document) {
+            this.revealEnd(document);
+        }
+    }
+
+    dispose() {
+        this.streams.forEach(stream => {
+            if (stream.timer) {
+                clearTimeout(stream.timer);
+            }
+        });
+        this.streams.clear();
+        while (this._disposables.length) {
+            const x = this._disposables.pop();
+            if (x) {
+                x.dispose();
+            }
+        }
+    }
+
+    private async poll(uri: vscode.Uri, stream: LogStream, notify: boolean = true): Promise<void> {
+        const { pipelineId, stageName } = parseStageLogUri(uri);
+        let changed = false;
+
+        try {
+            const chunk = await this.apiFor(pipelineId).getStageLogs(pipelineId, stageName, stream.offset);
+            stream.content += chunk.content;
+            stream.offset = chunk.nextOffset;
+            stream.complete = chunk.complete;
+            changed = chunk.content.length > 0 || chunk.complete || !!stream.error;
+            stream.error = undefined;
+        } catch (error: any) {
+            // Reopening the document starts a new stream
+            stream.error = `Failed to load logs: ${error.message}`;
+            stream.complete = true;
+            changed = true;
+        }
+
+        // The document may have been closed while the request was in flight
+        if (this.streams.get(uri.toString()) !== stream) {
+            return;
+        }
+        if (changed && notify) {
+            this._onDidChange.fire(uri);
+        }
+        if (!stream.complete) {
+            stream.timer = setTimeout(() => {
+                stream.timer = null;
+                this.poll(uri, stream);
+            }, LOG_POLL_INTERVAL);
+        }
+    }
+
+    private stopStream(uri: vscode.Uri) {
+        const stream = this.streams.get(uri.toString());
+        if (stream && stream.timer) {
+            clearTimeout(stream.timer);
+        }
+        this.streams.delete(uri.toString());
+        this.updateFollowingContext();
+    }
+
+    private revealEnd(document: vscode.TextDocument) {
+        const end = new vscode.Position(document.lineCount - 1, 0);
+        vscode.window.visibleTextEditors
+            .filter(editor => editor.document === document)
+            .forEach(editor => editor.revealRange(new vscode.Range(end, end), vscode.TextEditorRevealType.Default));
+    }
+
+    private updateFollowingContext() {
+        const uri = vscode.window.activeTextEditor?.document.uri;
+        const following = !!uri && uri.scheme === LOG_SCHEME && this.isFollowing(uri);
+        vscode.commands.executeCommand('setContext', FOLLOWING_CONTEXT_KEY, following);
+    }
+}
+
+/** Opens a stage's log in an editor, streaming it while the stage runs. */
+export async function openStageLogs(pipelineId: string, stageName: string): Promise<void> {
+    const document = await vscode.workspace.openTextDocument(stageLogUri(pipelineId, stageName));
+    await vscode.window.showTextDocument(document, { preview: false });
+}
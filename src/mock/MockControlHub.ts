@@ -0,0 +1,681 @@
+import * as vscode from 'vscode';
+import { createHash, randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import { AxiosAdapter, AxiosError, AxiosResponse, CanceledError, InternalAxiosRequestConfig } from 'axios';
+import { PipelineStatus, StageStatus } from '../models/Pipeline';
+
+// How often simulated pipelines advance
+const TICK_INTERVAL = 1000;
+// A new pipeline starts this often while fewer than MAX_RUNNING are running
+const AUTO_START_INTERVAL = 90;
+const MAX_RUNNING = 2;
+// Triggered pipelines stay queued this long before starting
+const QUEUE_DELAY = 3;
+const REQUEST_LATENCY = 150;
+const DEFAULT_OUTAGE = 10;
+
+/** The stages every simulated pipeline runs, with their usual duration and log output. */
+interface FixtureStage {
+    stageName: string;
+    component: string;
+    duration: number;
+    logs: string[];            // {app} and {commit} are replaced per pipeline
+}
+
+/** A finished pipeline, with times relative to when mock mode starts. */
+interface FixturePipeline {
+    id: string;
+    appName: string;
+    status: string;
+    startedAgo: number;
+    triggerType: string;
+    triggerUser: string;
+    branch: string;
+    commitSha: string;
+    commitMessage: string;
+    stages: { stageName: string; status: string; offset: number; duration: number; errorMessage?: string }[];
+}
+
+interface Fixtures {
+    applications: string[];
+    stages: FixtureStage[];
+    pipelines: FixturePipeline[];
+}
+
+// Pipelines are kept in the Control Hub's wire format, so responses go through the real mapping
+interface MockStage {
+    stageName: string;
+    component: string;
+    status: string;
+    startedAt?: number;
+    completedAt?: number;
+    errorMessage?: string;
+    details: { [key: string]: any };
+}
+
+interface MockPipeline {
+    id: string;
+    appName: string;
+    status: string;
+    startedAt: number;
+    completedAt?: number;
+    triggerType: string;
+    triggerUser: string;
+    branch: string;
+    commitSha: string;
+    commitMessage: string;
+    stages: MockStage[];
+}
+
+interface Run {
+    startsAt: number;
+    stageIndex: number;
+    durations: number[];
+    logLength: number;         // Log characters of the current stage already sent as events
+}
+
+type Route = [number, any];
+
+/**
+ * An in-process stand-in for the Control Hub used by mock mode. Serves the
+ * REST API through an axios adapter and simulates running pipelines, which
+ * advance through their stages and emit realtime events over time.
+ *
+ * Emits 'message' with each event as the server would send it, and
+ * 'socketAvailable' when the realtime endpoint goes down or comes back.
+ * Faults can be injected to see how the extension copes with failures,
+ * rejected tokens and outages.
+ */
+export class MockControlHub extends EventEmitter implements vscode.Disposable {
+    private pipelines = new Map<string, MockPipeline>();
+    private runs = new Map<string, Run>();
+    private timer: NodeJS.Timeout | null = null;
+    private nextAutoStart = 0;
+    private failNext = false;
+    private unauthorized = false;
+    private unreachable = false;
+    private outageTimer: NodeJS.Timeout | null = null;
+
+    /** Pass to ControlHubAPI to have its requests answered here. */
+    readonly adapter: AxiosAdapter = config => this.handleRequest(config);
+
+    static async load(fixtureUri: vscode.Uri): Promise<MockControlHub> {
+        const data = await vscode.workspace.fs.readFile(fixtureUri);
+        return new MockControlHub(JSON.parse(Buffer.from(data).toString('utf8')));
+    }
+
+    constructor(private readonly fixtures: Fixtures) {
+        super();
+        const now = nowSeconds();
+        for (const fixture of fixtures.pipelines) {
+            const startedAt = now - fixture.startedAgo;
+            const stages = fixture.stages.map(stage => ({
+                stageName: stage.stageName,
+                component: this.templateFor(stage.stageName)?.component || '',
+                status: stage.status,
+                startedAt: startedAt + stage.offset,
+                completedAt: startedAt + stage.offset + stage.duration,
+                errorMessage: stage.errorMessage,
+                details: {}
+            }));
+            this.pipelines.set(fixture.id, {
+                id: fixture.id,
+                appName: fixture.appName,
+                status: fixture.status,
+                startedAt,
+                completedAt: stages.length > 0 ? stages[stages.length - 1].completedAt : startedAt,
+                triggerType: fixture.triggerType,
+                triggerUser: fixture.triggerUser,
+                branch: fixture.branch,
+                commitSha: fixture.commitSha,
+                commitMessage: fixture.commitMessage,
+                stages
+            });
+        }
+    }
+
+    /** Starts simulating, with one pipeline already on its way. */
+    start(): void {
+        if (this.timer) {
+            return;
+        }
+        this.startPipeline();
+        this.nextAutoStart = nowSeconds() + AUTO_START_INTERVAL;
+        this.timer = setInterval(() => this.tick(), TICK_INTERVAL);
+    }
+
+    isSocketAvailable(): boolean {
+        return !this.unauthorized && !this.unreachable && !this.outageTimer;
+    }
+
+    isUnauthorized(): boolean {
+        return this.unauthorized;
+    }
+
+    isUnreachable(): boolean {
+        return this.unreachable;
+    }
+
+    /** Starts a pipeline as if a push had triggered it. */
+    startPipeline(appName?: string): string {
+        const app = appName || pick(this.fixtures.applications);
+        const template = pick(this.fixtures.pipelines.filter(p => p.appName === app)) || pick(this.fixtures.pipelines);
+        return this.createPipeline({
+            appName: app,
+            triggerType: 'git_push',
+            triggerUser: template.triggerUser,
+            branch: template.branch,
+            commitSha: randomSha(),
+            commitMessage: template.commitMessage
+        });
+    }
+
+    /** The next stage to complete fails. */
+    failNextStage(): void {
+        this.failNext = true;
+    }
+
+    setUnauthorized(unauthorized: boolean): void {
+        const wasAvailable = this.isSocketAvailable();
+        this.unauthorized = unauthorized;
+        this.notifySocketAvailability(wasAvailable);
+    }
+
+    setUnreachable(unreachable: boolean): void {
+        const wasAvailable = this.isSocketAvailable();
+        this.unreachable = unreachable;
+        this.notifySocketAvailability(wasAvailable);
+    }
+
+    /** Drops the realtime connection; events during the outage are lost, as they would be. */
+    disconnectSocket(seconds: number = DEFAULT_OUTAGE): void {
+        const wasAvailable = this.isSocketAvailable();
+        if (this.outageTimer) {
+            clearTimeout(this.outageTimer);
+        }
+        this.outageTimer = setTimeout(() => {
+            this.outageTimer = null;
+            this.notifySocketAvailability(false);
+        }, seconds * 1000);
+        this.notifySocketAvailability(wasAvailable);
+    }
+
+    /** Sends an event the client must reject: a stage completion without a pipeline or valid status. */
+    sendMalformedEvent(): void {
+        this.send({ type: 'stage_completed', stageName: 'run_tests', status: 'exploded', timestamp: nowSeconds() });
+    }
+
+    dispose() {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+        if (this.outageTimer) {
+            clearTimeout(this.outageTimer);
+            this.outageTimer = null;
+        }
+        this.removeAllListeners();
+    }
+
+    private async handleRequest(config: InternalAxiosRequestConfig): Promise<AxiosResponse> {
+        await simulateLatency(config);
+        if (this.unreachable) {
+            throw new AxiosError('connect ECONNREFUSED (mock Control Hub)', 'ECONNREFUSED', config);
+        }
+
+        const method = (config.method || 'get').toUpperCase();
+        const path = (config.url || '').split('?')[0];
+        const params = config.params || {};
+        const body = typeof config.data === 'string' && config.data ? JSON.parse(config.data) : config.data || {};
+
+        // The health check is the one endpoint that doesn't need a token
+        const [status, data] = this.unauthorized && path !== '/health'
+            ? [401, { detail: 'Not authenticated' }]
+            : this.route(method, path, params, body);
+
+        // Like the Control Hub, GETs carry an ETag and unchanged resources come back as 304
+        if (method !== 'GET' || status !== 200) {
+            return settleResponse(config, status, data);
+        }
+        const etag = `"${createHash('sha1').update(JSON.stringify(data)).digest('hex').slice(0, 16)}"`;
+        return config.headers['If-None-Match'] === etag
+            ? settleResponse(config, 304, '', { etag })
+            : settleResponse(config, status, data, { etag });
+    }
+
+    private route(method: string, path: string, params: any, body: any): Route {
+        if (method === 'GET' && path === '/health') {
+            return [200, { status: 'healthy' }];
+        }
+        if (method === 'GET' && path === '/pipelines') {
+            return [200, this.listPipelines(params)];
+        }
+        if (method === 'POST' && path === '/pipelines/trigger') {
+            return this.trigger(body);
+        }
+        if (method === 'GET' && path === '/metrics') {
+            return [200, this.getMetrics(params.app_name, params.period)];
+        }
+        if (method === 'GET' && path === '/applications') {
+            return [200, { applications: this.fixtures.applications }];
+        }
+
+        const match = path.match(/^\/pipelines\/([^/]+)(\/.*)?$/);
+        const pipeline = match ? this.pipelines.get(match[1]) : undefined;
+        if (!match || !pipeline) {
+            return [404, { detail: 'Not found' }];
+        }
+
+        const rest = match[2] || '';
+        const logs = rest.match(/^\/stages\/([^/]+)\/logs$/);
+        if (method === 'GET' && rest === '') {
+            return [200, this.toDetail(pipeline)];
+        }
+        if (method === 'GET' && logs) {
+            return this.getLogs(pipeline, decodeURIComponent(logs[1]), Number(params.offset) || 0);
+        }
+        if (method === 'POST' && rest === '/cancel') {
+            return this.cancel(pipeline);
+        }
+        if (method === 'POST' && rest === '/retry') {
+            return [200, { pipelineId: this.restart(pipeline, 0) }];
+        }
+        if (method === 'POST' && rest === '/rerun') {
+            const fromIndex = pipeline.stages.findIndex(stage => stage.stageName === body.from_stage);
+            if (fromIndex < 0) {
+                return [400, { detail: `Unknown stage ${body.from_stage}` }];
+            }
+            return [200, { pipelineId: this.restart(pipeline, fromIndex) }];
+        }
+        // No analysis endpoint, so the extension analyzes locally
+        return [404, { detail: 'Not found' }];
+    }
+
+    private listPipelines(params: any): any {
+        const limit = Number(params.limit) || 20;
+        const offset = Number(params.offset) || 0;
+        const matches = [...this.pipelines.values()]
+            .filter(p => !params.app_name || p.appName === params.app_name)
+            .filter(p => !params.status || p.status === params.status)
+            .filter(p => !params.branch || p.branch === params.branch)
+            .filter(p => !params.trigger_user || p.triggerUser === params.trigger_user)
+            .filter(p => !params.commit_sha || p.commitSha.startsWith(params.commit_sha))
+            .sort((a, b) => b.startedAt - a.startedAt);
+
+        return {
+            pipelines: matches.slice(offset, offset + limit).map(pipeline => {
+                const { stages, ...summary } = pipeline;
+                return { ...summary, stageCount: stages.length };
+            }),
+            total: matches.length,
+            limit,
+            offset
+        };
+    }
+
+    private toDetail(pipeline: MockPipeline): any {
+        return { ...pipeline, stages: pipeline.stages.map(stage => ({ ...stage })), mermaidGantt: toGantt(pipeline) };
+    }
+
+    private getLogs(pipeline: MockPipeline, stageName: string, offset: number): Route {
+        const index = pipeline.stages.findIndex(stage => stage.stageName === stageName);
+        if (index < 0) {
+            return [404, { detail: `Unknown stage ${stageName}` }];
+        }
+        const text = this.stageLog(pipeline, index);
+        const status = pipeline.stages[index].status;
+        return [200, {
+            content: text.slice(offset),
+            nextOffset: text.length,
+            complete: status !== StageStatus.RUNNING && status !== StageStatus.PENDING
+        }];
+    }
+
+    private trigger(body: any): Route {
+        if (!this.fixtures.applications.includes(body.app_name)) {
+            return [404, { detail: `Unknown application ${body.app_name}` }];
+        }
+        const pipelineId = this.createPipeline({
+            appName: body.app_name,
+            triggerType: 'manual',
+            triggerUser: 'you',
+            branch: body.branch || 'main',
+            commitSha: body.commit_sha || randomSha(),
+            commitMessage: 'Triggered from VS Code'
+        });
+        return [200, { pipelineId }];
+    }
+
+    private cancel(pipeline: MockPipeline): Route {
+        if (!this.runs.has(pipeline.id)) {
+            return [409, { detail: 'Pipeline is not running' }];
+        }
+        this.finishPipeline(pipeline, PipelineStatus.CANCELLED, 'Cancelled by you');
+        return [200, { status: PipelineStatus.CANCELLED }];
+    }
+
+    /** A new run of the pipeline's commit; stages before fromIndex are skipped. */
+    private restart(pipeline: MockPipeline, fromIndex: number): string {
+        return this.createPipeline({
+            appName: pipeline.appName,
+            triggerType: 'manual',
+            triggerUser: 'you',
+            branch: pipeline.branch,
+            commitSha: pipeline.commitSha,
+            commitMessage: pipeline.commitMessage
+        }, fromIndex);
+    }
+
+    private getMetrics(appName: string, period: string): any {
+        const days = ({ '24h': 1, '7d': 7, '30d': 30, '90d': 90 } as { [period: string]: number })[period] || 7;
+        const since = nowSeconds() - days * 86400;
+        const finished = [...this.pipelines.values()].filter(p =>
+            p.appName === appName && p.startedAt >= since && p.completedAt !== undefined
+        );
+        const succeeded = finished.filter(p => p.status === PipelineStatus.SUCCEEDED);
+
+        const failureReasons: { [reason: string]: number } = {};
+        finished.filter(p => p.status === PipelineStatus.FAILED).forEach(p => {
+            const failed = p.stages.find(stage => stage.status === StageStatus.FAILED);
+            const reason = failed ? `${failed.stageName} failed` : 'Unknown';
+            failureReasons[reason] = (failureReasons[reason] || 0) + 1;
+        });
+
+        return {
+            appName,
+            period,
+            totalPipelines: finished.length,
+            successRate: finished.length > 0 ? succeeded.length / finished.length * 100 : 0,
+            averageDuration: finished.length > 0
+                ? finished.reduce((sum, p) => sum + (p.completedAt! - p.startedAt), 0) / finished.length
+                : 0,
+            failureReasons,
+            deploymentFrequency: succeeded.length / days
+        };
+    }
+
+    private createPipeline(
+        trigger: Pick<MockPipeline, 'appName' | 'triggerType' | 'triggerUser' | 'branch' | 'commitSha' | 'commitMessage'>,
+        fromIndex: number = 0
+    ): string {
+        const now = nowSeconds();
+        const pipeline: MockPipeline = {
+            ...trigger,
+            id: randomUUID(),
+            status: PipelineStatus.PENDING,
+            startedAt: now,
+            stages: this.fixtures.stages.map((template, index) => ({
+                stageName: template.stageName,
+                component: template.component,
+                status: index < fromIndex ? StageStatus.SKIPPED : StageStatus.PENDING,
+                details: {}
+            }))
+        };
+        this.pipelines.set(pipeline.id, pipeline);
+        this.runs.set(pipeline.id, {
+            startsAt: now + QUEUE_DELAY,
+            stageIndex: fromIndex,
+            // Vary durations a little so no two runs look the same
+            durations: this.fixtures.stages.map(template => Math.max(1, Math.round(template.duration * (0.7 + Math.random() * 0.6)))),
+            logLength: 0
+        });
+        return pipeline.id;
+    }
+
+    private tick(): void {
+        const now = nowSeconds();
+        for (const [pipelineId, run] of [...this.runs]) {
+            const pipeline = this.pipelines.get(pipelineId)!;
+            if (pipeline.status === PipelineStatus.PENDING) {
+                if (now >= run.startsAt) {
+                    pipeline.status = PipelineStatus.RUNNING;
+                    pipeline.startedAt = now;
+                    this.send({
+                        type: 'pipeline_started',
+                        pipelineId,
+                        appName: pipeline.appName,
+                        branch: pipeline.branch,
+                        triggerUser: pipeline.triggerUser,
+                        timestamp: now
+                    });
+                    this.startStage(pipeline, run);
+                }
+                continue;
+            }
+
+            const stage = pipeline.stages[run.stageIndex];
+            this.sendNewLogOutput(pipeline, run);
+            if (now >= stage.startedAt! + run.durations[run.stageIndex]) {
+                this.completeStage(pipeline, run);
+            }
+        }
+
+        if (now >= this.nextAutoStart) {
+            this.nextAutoStart = now + AUTO_START_INTERVAL;
+            if (this.runs.size < MAX_RUNNING) {
+                this.startPipeline();
+            }
+        }
+    }
+
+    private startStage(pipeline: MockPipeline, run: Run): void {
+        const stage = pipeline.stages[run.stageIndex];
+        stage.status = StageStatus.RUNNING;
+        stage.startedAt = nowSeconds();
+        run.logLength = 0;
+        this.send({
+            type: 'stage_started',
+            pipelineId: pipeline.id,
+            appName: pipeline.appName,
+            stageName: stage.stageName,
+            component: stage.component,
+            startedAt: stage.startedAt,
+            timestamp: stage.startedAt
+        });
+    }
+
+    private completeStage(pipeline: MockPipeline, run: Run): void {
+        const stage = pipeline.stages[run.stageIndex];
+        const failed = this.failNext;
+        this.failNext = false;
+
+        stage.status = failed ? StageStatus.FAILED : StageStatus.SUCCEEDED;
+        stage.completedAt = nowSeconds();
+        if (failed) {
+            stage.errorMessage = `${stage.stageName} failed (injected by mock mode)`;
+        }
+        this.sendNewLogOutput(pipeline, run);
+        this.sendStageCompleted(pipeline, stage);
+
+        if (failed) {
+            this.finishPipeline(pipeline, PipelineStatus.FAILED);
+        } else if (run.stageIndex + 1 < pipeline.stages.length) {
+            run.stageIndex++;
+            this.startStage(pipeline, run);
+        } else {
+            this.finishPipeline(pipeline, PipelineStatus.SUCCEEDED);
+        }
+    }
+
+    /** Ends a run; the running stage (when cancelled) and the stages after it are skipped. */
+    private finishPipeline(pipeline: MockPipeline, status: PipelineStatus, reason?: string): void {
+        const now = nowSeconds();
+        this.runs.delete(pipeline.id);
+
+        for (const stage of pipeline.stages) {
+            if (stage.status === StageStatus.RUNNING || stage.status === StageStatus.PENDING) {
+                if (stage.status === StageStatus.RUNNING) {
+                    stage.errorMessage = reason;
+                }
+                stage.status = StageStatus.SKIPPED;
+                stage.startedAt = stage.startedAt ?? now;
+                stage.completedAt = now;
+                this.sendStageCompleted(pipeline, stage);
+            }
+        }
+
+        pipeline.status = status;
+        pipeline.completedAt = now;
+        this.send({
+            type: 'pipeline_finished',
+            pipelineId: pipeline.id,
+            appName: pipeline.appName,
+            status,
+            completedAt: now,
+            duration: now - pipeline.startedAt,
+            branch: pipeline.branch,
+            triggerUser: pipeline.triggerUser,
+            timestamp: now
+        });
+    }
+
+    private sendStageCompleted(pipeline: MockPipeline, stage: MockStage): void {
+        this.send({
+            type: 'stage_completed',
+            pipelineId: pipeline.id,
+            appName: pipeline.appName,
+            stageName: stage.stageName,
+            component: stage.component,
+            status: stage.status,
+            startedAt: stage.startedAt,
+            completedAt: stage.completedAt,
+            duration: stage.completedAt! - stage.startedAt!,
+            errorMessage: stage.errorMessage,
+            timestamp: stage.completedAt
+        });
+    }
+
+    private sendNewLogOutput(pipeline: MockPipeline, run: Run): void {
+        const stage = pipeline.stages[run.stageIndex];
+        const text = this.stageLog(pipeline, run.stageIndex);
+        if (text.length > run.logLength) {
+            this.send({
+                type: 'log_chunk',
+                pipelineId: pipeline.id,
+                appName: pipeline.appName,
+                stageName: stage.stageName,
+                content: text.slice(run.logLength),
+                offset: run.logLength,
+                timestamp: nowSeconds()
+            });
+            run.logLength = text.length;
+        }
+    }
+
+    /** The log a stage has written so far; running stages reveal their lines over the stage's duration. */
+    private stageLog(pipeline: MockPipeline, index: number): string {
+        const stage = pipeline.stages[index];
+        const template = this.templateFor(stage.stageName);
+        if (!template || stage.startedAt === undefined || stage.status === StageStatus.PENDING) {
+            return '';
+        }
+
+        let lines = template.logs.map(line =>
+            `[${stage.stageName}] ${line.replace(/\{app\}/g, pipeline.appName).replace(/\{commit\}/g, pipeline.commitSha.slice(0, 7))}`
+        );
+        if (stage.status === StageStatus.RUNNING) {
+            const run = this.runs.get(pipeline.id);
+            const duration = run ? run.durations[index] : template.duration;
+            const elapsed = nowSeconds() - stage.startedAt;
+            lines = lines.slice(0, Math.ceil(lines.length * Math.min(1, elapsed / duration)));
+        } else if (stage.status === StageStatus.FAILED) {
+            // A failed stage stops partway and reports why
+            lines = [...lines.slice(0, Math.max(1, lines.length - 1)), `[${stage.stageName}] ERROR: ${stage.errorMessage}`];
+        }
+        return lines.map(line => `${line}\n`).join('');
+    }
+
+    private templateFor(stageName: string): FixtureStage | undefined {
+        return this.fixtures.stages.find(stage => stage.stageName === stageName);
+    }
+
+    private send(message: any): void {
+        // Like a real server, nothing is queued for clients that aren't connected
+        if (this.isSocketAvailable()) {
+            this.emit('message', message);
+        }
+    }
+
+    private notifySocketAvailability(wasAvailable: boolean): void {
+        const available = this.isSocketAvailable();
+        if (available !== wasAvailable) {
+            this.emit('socketAvailable', available);
+        }
+    }
+}
+
+/**
+ * Builds the response an adapter resolves with, or throws the error axios
+ * would for a status the request doesn't accept.
+ */
+export function settleResponse(
+    config: InternalAxiosRequestConfig,
+    status: number,
+    data: any,
+    headers: { [name: string]: string } = {}
+): AxiosResponse {
+    const response: AxiosResponse = { data, status, statusText: String(status), headers, config, request: {} };
+    if (!config.validateStatus || config.validateStatus(status)) {
+        return response;
+    }
+    throw new AxiosError(
+        `Request failed with status code ${status}`,
+        status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+        config,
+        {},
+        response
+    );
+}
+
+/** A Gantt chart like the one the Control Hub generates for pipeline details. */
+function toGantt(pipeline: MockPipeline): string {
+    const lines = [
+        'gantt',
+        `    title ${pipeline.appName}`,
+        '    dateFormat X',
+        '    axisFormat %M:%S',
+        '    section Stages'
+    ];
+    pipeline.stages.forEach((stage, index) => {
+        if (stage.startedAt === undefined) {
+            return;
+        }
+        const start = Math.round(stage.startedAt - pipeline.startedAt);
+        const end = Math.max(start + 1, Math.round((stage.completedAt ?? nowSeconds()) - pipeline.startedAt));
+        const tag = stage.status === StageStatus.FAILED ? 'crit' : stage.status === StageStatus.RUNNING ? 'active' : 'done';
+        lines.push(`    ${stage.stageName} :${tag}, s${index}, ${start}, ${end}`);
+    });
+    return lines.join('\n');
+}
+
+/** Waits REQUEST_LATENCY, rejecting like axios does when the request's signal aborts first. */
+function simulateLatency(config: InternalAxiosRequestConfig): Promise<void> {
+    const signal = config.signal;
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new CanceledError(undefined, undefined, config));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener?.('abort', onAbort);
+            resolve();
+        }, REQUEST_LATENCY);
+        if (signal?.aborted) {
+            onAbort();
+        } else {
+            signal?.addEventListener?.('abort', onAbort);
+        }
+    });
+}
+
+function nowSeconds(): number {
+    return Math.floor(Date.now() / 1000);
+}
+
+function pick<T>(items: T[]): T {
+    return items[Math.floor(Math.random() * items.length)];
+}
+
+function randomSha(): string {
+    return randomUUID().replace(/-/g, '') + randomUUID().replace(/-/g, '').slice(0, 8);
+}
@@ -0,0 +1,70 @@
+import * as vscode from 'vscode';
+import { ControlHubAPI } from '../api/ControlHubAPI';
+import { WebSocketManager, isRunStartOrEnd } from '../api/WebSocketManager';
+import { MockControlHub } from './MockControlHub';
+
+// How long "connecting" lasts, so the status bar shows it like a real connection
+const CONNECT_DELAY = 500;
+
+/**
+ * WebSocketManager for mock mode: receives the mock Control Hub's events
+ * instead of opening sockets. Events still go through the same validation
+ * and subscription filtering as real ones.
+ */
+export class MockWebSocketManager extends WebSocketManager {
+    private connectTimer: NodeJS.Timeout | null = null;
+
+    private readonly onMessage = (message: any) => {
+        if (!this.isActive || this.getConnectionState() !== 'connected') {
+            return;
+        }
+        if (!this.isTracked(message) && !isRunStartOrEnd(message)) {
+            return;
+        }
+        this.emitPipelineEvent(message);
+    };
+
+    private readonly onSocketAvailable = (available: boolean) => {
+        if (this.isActive) {
+            this.setConnectionState(available ? 'connected' : 'reconnecting');
+        }
+    };
+
+    constructor(api: ControlHubAPI, diagnostics: vscode.LogOutputChannel, private readonly hub: MockControlHub) {
+        super(api, diagnostics);
+    }
+
+    async connect(): Promise<void> {
+        if (this.isActive) {
+            return;
+        }
+        this.isActive = true;
+        this.hub.on('message', this.onMessage);
+        this.hub.on('socketAvailable', this.onSocketAvailable);
+
+        this.setConnectionState('connecting');
+        this.connectTimer = setTimeout(() => {
+            this.connectTimer = null;
+            this.setConnectionState(this.hub.isSocketAvailable() ? 'connected' : 'reconnecting');
+        }, CONNECT_DELAY);
+    }
+
+    trackPipeline(pipelineId: string): void {
+        this.subscriptions.add(pipelineId);
+    }
+
+    stopTrackingPipeline(pipelineId: string): void {
+        this.subscriptions.delete(pipelineId);
+    }
+
+    disconnect(): void {
+        this.isActive = false;
+        if (this.connectTimer) {
+            clearTimeout(this.connectTimer);
+            this.connectTimer = null;
+        }
+        this.hub.off('message', this.onMessage);
+        this.hub.off('socketAvailable', this.onSocketAvailable);
+        this.setConnectionState('disconnected');
+    }
+}
@@ -1,12 +1,16 @@
+// Units used throughout the models; api/ResponseMapper.ts converts whatever the server sends
+export type EpochSeconds = number;
+export type Seconds = number;
+
 export interface Pipeline {
     id: string;
     appName: string;
-    startTime: number;
-    endTime?: number;
+    startTime: EpochSeconds;
+    endTime?: EpochSeconds;
     status: PipelineStatus;
     stages: PipelineStage[];
     trigger: PipelineTrigger;
-    duration?: number;
+    duration?: Seconds;
     stageCount?: number;
     mermaidGantt?: string;  // Backend-generated Mermaid Gantt chart
 }
@@ -24,11 +28,11 @@ export interface PipelineStage {
     stageName: string;
     component: string;
     status: StageStatus;
-    startedAt: number;
-    completedAt?: number;
+    startedAt: EpochSeconds;
+    completedAt?: EpochSeconds;
     errorMessage?: string;
     details: any;
-    duration?: number;
+    duration?: Seconds;
 }
 
 export enum StageStatus {
@@ -39,7 +43,30 @@ export enum StageStatus {
     SKIPPED = 'SKIPPED'
 }
 
+/**
+ * How long a pipeline ran: the duration the Control Hub reported, else the
+ * time from start to end. One that hasn't ended has none, unless now is
+ * given to count up to.
+ */
+export function getPipelineDuration(pipeline: Pipeline, now?: EpochSeconds): Seconds | undefined {
+    if (pipeline.duration !== undefined && pipeline.duration !== null && pipeline.duration >= 0) {
+        return pipeline.duration;
+    }
+    return elapsedSeconds(pipeline.startTime, pipeline.endTime ?? now);
+}
 
+/** How long a stage ran, the same way as getPipelineDuration. */
+export function getStageDuration(stage: PipelineStage, now?: EpochSeconds): Seconds | undefined {
+    if (stage.duration !== undefined && stage.duration !== null && stage.duration >= 0) {
+        return stage.duration;
+    }
+    return elapsedSeconds(stage.startedAt, stage.completedAt ?? now);
+}
+
+/** Seconds from start to end, unless either isn't known or the start comes after the end. */
+export function elapsedSeconds(start: EpochSeconds, end: EpochSeconds | undefined): Seconds | undefined {
+    return start > 0 && end !== undefined && end >= start ? end - start : undefined;
+}
 
 export interface PipelineTrigger {
     type: 'manual' | 'git_push' | 'scheduled' | 'api';
@@ -49,12 +76,39 @@ export interface PipelineTrigger {
     message?: string;
 }
 
+export interface PipelineFilter {
+    appName?: string;
+    status?: PipelineStatus;
+    branch?: string;
+    triggerUser?: string;
+    commit?: string;           // Full or abbreviated SHA
+}
+
+export interface PipelinePage {
+    pipelines: Pipeline[];
+    total: number;
+    limit: number;
+    offset: number;
+}
+
+export interface StageLogChunk {
+    content: string;           // Log text starting at the requested offset
+    nextOffset: number;        // Offset to request the following chunk from
+    complete: boolean;         // False while the stage is still writing logs
+}
+
+export interface TriggerOptions {
+    branch: string;
+    commit?: string;           // Defaults to the branch HEAD when omitted
+    parameters?: { [key: string]: string };
+}
+
 export interface PipelineMetrics {
     appName: string;
     period: string;
     totalPipelines: number;
     successRate: number;
-    averageDuration: number;
+    averageDuration: Seconds;
     failureReasons: { [key: string]: number };
     deploymentFrequency: number;
 }
@@ -70,7 +124,7 @@ export interface PipelineAnalysis {
 
 export interface AnalysisItem {
     stage: string;
-    duration: number;
+    duration: Seconds;
     issue: string;
     impact: 'high' | 'medium' | 'low';
 }
\ No newline at end of file
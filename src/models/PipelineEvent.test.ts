@@ -0,0 +1,102 @@
+import test from 'node:test';
+import * as assert from 'node:assert/strict';
+import { makePipeline, makeStage } from '../testing/fixtures';
+import { Pipeline, PipelineStatus, StageStatus } from './Pipeline';
+import { applyEventToPipeline, normalizeEventStatus } from './PipelineEvent';
+
+/** A running pipeline whose build stage failed in an earlier run. */
+function pipeline(overrides: Partial<Pipeline> = {}): Pipeline {
+    return makePipeline({
+        stages: [makeStage('build', StageStatus.FAILED, { completedAt: 1700000030, errorMessage: 'exit 1', details: { attempt: 1 }, duration: 30 })],
+        ...overrides
+    });
+}
+
+test('starts a stage again without its previous run', () => {
+    const updated = applyEventToPipeline(pipeline(), { type: 'stage_started', pipelineId: 'p1', stageName: 'build', timestamp: 1700000100 });
+    assert.deepEqual(updated.stages[0], {
+        id: 'p1:build',
+        stageName: 'build',
+        component: 'web',
+        status: StageStatus.RUNNING,
+        startedAt: 1700000100,
+        completedAt: undefined,
+        errorMessage: undefined,
+        details: undefined,
+        duration: undefined
+    });
+});
+
+test('completes a stage keeping what earlier events reported', () => {
+    const progressed = applyEventToPipeline(pipeline(), {
+        type: 'stage_progress', pipelineId: 'p1', stageName: 'build', details: { step: 2 }, timestamp: 1700000040
+    });
+    assert.equal(progressed.stages[0].status, StageStatus.RUNNING);
+    assert.equal(progressed.stages[0].startedAt, 1700000000);
+
+    const completed = applyEventToPipeline(progressed, {
+        type: 'stage_completed', pipelineId: 'p1', stageName: 'build', status: StageStatus.SUCCEEDED, completedAt: 1700000050, timestamp: 1700000050
+    });
+    assert.equal(completed.stages[0].status, StageStatus.SUCCEEDED);
+    assert.equal(completed.stages[0].completedAt, 1700000050);
+    assert.deepEqual(completed.stages[0].details, { step: 2 });
+});
+
+test('completes a stage at the time of the event when it reports no time', () => {
+    const started = applyEventToPipeline(pipeline(), { type: 'stage_started', pipelineId: 'p1', stageName: 'build', timestamp: 1700000100 });
+    const completed = applyEventToPipeline(started, {
+        type: 'stage_completed', pipelineId: 'p1', stageName: 'build', status: StageStatus.FAILED, timestamp: 1700000145
+    });
+    assert.equal(completed.stages[0].completedAt, 1700000145);
+    assert.equal(completed.stages[0].duration, 45);
+
+    const reported = applyEventToPipeline(started, {
+        type: 'stage_completed', pipelineId: 'p1', stageName: 'build', status: StageStatus.SUCCEEDED, duration: 40, timestamp: 1700000145
+    });
+    assert.equal(reported.stages[0].duration, 40);
+});
+
+test('adds stages only to a pipeline whose stages are loaded', () => {
+    const event = { type: 'stage_started' as const, pipelineId: 'p1', stageName: 'deploy', timestamp: 1700000100 };
+    assert.deepEqual(applyEventToPipeline(pipeline(), event).stages.map(stage => stage.stageName), ['build', 'deploy']);
+
+    const summary = applyEventToPipeline(pipeline({ stages: [], status: PipelineStatus.PENDING }), event);
+    assert.deepEqual(summary.stages, []);
+    assert.equal(summary.status, PipelineStatus.RUNNING);
+    assert.equal(summary.stageCount, 1);
+});
+
+test('finishes a pipeline at the time the event reports', () => {
+    const finished = { type: 'pipeline_finished' as const, pipelineId: 'p1', status: PipelineStatus.SUCCEEDED as const, timestamp: 1700000200 };
+    const updated = applyEventToPipeline(pipeline(), finished);
+    assert.equal(updated.status, PipelineStatus.SUCCEEDED);
+    assert.equal(updated.endTime, 1700000200);
+    assert.equal(updated.duration, 200);
+
+    const completed = applyEventToPipeline(pipeline(), { ...finished, completedAt: 1700000190 });
+    assert.equal(completed.endTime, 1700000190);
+    assert.equal(completed.duration, 190);
+    assert.equal(applyEventToPipeline(pipeline(), { ...finished, duration: 150 }).duration, 150);
+    assert.equal(applyEventToPipeline(pipeline({ startTime: 0 }), finished).duration, undefined);
+});
+
+test('replaces the end time and duration of a previous run', () => {
+    const retried = pipeline({ status: PipelineStatus.RUNNING, endTime: 1699990060, duration: 60 });
+    const updated = applyEventToPipeline(retried, { type: 'pipeline_finished', pipelineId: 'p1', status: PipelineStatus.FAILED, timestamp: 1700000300 });
+    assert.equal(updated.endTime, 1700000300);
+    assert.equal(updated.duration, 300);
+});
+
+test('never reopens a finished pipeline on a late start event', () => {
+    const done = pipeline({ status: PipelineStatus.FAILED });
+    assert.equal(applyEventToPipeline(done, { type: 'pipeline_started', pipelineId: 'p1', timestamp: 1700000000 }), done);
+});
+
+test('normalizes event statuses', () => {
+    assert.equal(normalizeEventStatus('success'), 'SUCCEEDED');
+    assert.equal(normalizeEventStatus('Completed'), 'SUCCEEDED');
+    assert.equal(normalizeEventStatus('error'), 'FAILED');
+    assert.equal(normalizeEventStatus('running'), 'RUNNING');
+    assert.equal(normalizeEventStatus(''), undefined);
+    assert.equal(normalizeEventStatus(3), undefined);
+});
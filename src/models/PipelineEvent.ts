@@ -0,0 +1,166 @@
+import { EpochSeconds, Pipeline, PipelineStage, PipelineStatus, Seconds, StageStatus, elapsedSeconds } from './Pipeline';
+
+// Realtime events, as validated by parsePipelineEvent (api/EventProtocol.ts)
+
+interface PipelineEventBase {
+    pipelineId: string;
+    appName?: string;
+    timestamp: EpochSeconds;   // When the server sent the event
+}
+
+export interface PipelineStartedEvent extends PipelineEventBase {
+    type: 'pipeline_started';
+    branch?: string;
+    triggerUser?: string;
+}
+
+export interface PipelineFinishedEvent extends PipelineEventBase {
+    type: 'pipeline_finished';
+    status: PipelineStatus.SUCCEEDED | PipelineStatus.FAILED | PipelineStatus.CANCELLED;
+    completedAt?: EpochSeconds;
+    duration?: Seconds;
+    branch?: string;
+    triggerUser?: string;
+}
+
+interface StageEventBase extends PipelineEventBase {
+    stageName: string;
+    stageId?: string;
+    component?: string;
+}
+
+export interface StageStartedEvent extends StageEventBase {
+    type: 'stage_started';
+    startedAt?: EpochSeconds;
+}
+
+export interface StageProgressEvent extends StageEventBase {
+    type: 'stage_progress';
+    message?: string;
+    details?: any;
+}
+
+export interface StageCompletedEvent extends StageEventBase {
+    type: 'stage_completed';
+    status: StageStatus.SUCCEEDED | StageStatus.FAILED | StageStatus.SKIPPED;
+    startedAt?: EpochSeconds;
+    completedAt?: EpochSeconds;
+    duration?: Seconds;
+    errorMessage?: string;
+    details?: any;
+}
+
+export interface LogChunkEvent extends PipelineEventBase {
+    type: 'log_chunk';
+    stageName: string;
+    content: string;
+    offset?: number;           // Offset of content in the stage log, when the server sends it
+}
+
+export type StageEvent = StageStartedEvent | StageProgressEvent | StageCompletedEvent;
+
+export type PipelineEvent = PipelineStartedEvent | PipelineFinishedEvent | StageEvent | LogChunkEvent;
+
+export type PipelineEventType = PipelineEvent['type'];
+
+export function isStageEvent(event: PipelineEvent): event is StageEvent {
+    return event.type === 'stage_started' || event.type === 'stage_progress' || event.type === 'stage_completed';
+}
+
+/**
+ * The status an event reports for its pipeline or stage, or undefined for
+ * events that don't change one (progress and log output).
+ */
+export function getEventStatus(event: PipelineEvent): string | undefined {
+    switch (event.type) {
+        case 'pipeline_started':
+            return PipelineStatus.RUNNING;
+        case 'stage_started':
+            return StageStatus.RUNNING;
+        case 'pipeline_finished':
+        case 'stage_completed':
+            return event.status;
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Returns a copy of the pipeline with a realtime event applied. Stage events
+ * update (or add) that stage; other events update the pipeline itself.
+ */
+export function applyEventToPipeline(pipeline: Pipeline, event: PipelineEvent): Pipeline {
+    switch (event.type) {
+        case 'log_chunk':
+            return pipeline;
+        case 'pipeline_started':
+            // Events can arrive late; never reopen a finished pipeline
+            return pipeline.status === PipelineStatus.PENDING
+                ? { ...pipeline, status: PipelineStatus.RUNNING }
+                : pipeline;
+        case 'pipeline_finished': {
+            // Without completedAt, the event itself is the best guess at when it finished.
+            // Never the listed endTime and duration: after a retry they belong to the previous run
+            const endTime = event.completedAt ?? event.timestamp;
+            return {
+                ...pipeline,
+                status: event.status,
+                endTime,
+                duration: event.duration ?? elapsedSeconds(pipeline.startTime, endTime)
+            };
+        }
+    }
+
+    const stages = pipeline.stages || [];
+    const index = stages.findIndex(stage =>
+        (event.stageId && stage.id === event.stageId) || stage.stageName === event.stageName
+    );
+    const previous: PipelineStage | undefined = index >= 0 ? stages[index] : undefined;
+    const completed = event.type === 'stage_completed' ? event : undefined;
+    // A stage starting again (e.g. re-run from that stage) keeps nothing of its previous run
+    const earlier = event.type === 'stage_started' ? undefined : previous;
+    const startedAt = (event.type === 'stage_progress' ? undefined : event.startedAt) ?? earlier?.startedAt ?? event.timestamp;
+    // As for pipelines, the event is the best guess at when the stage completed
+    const completedAt = completed ? completed.completedAt ?? event.timestamp : earlier?.completedAt;
+    const stage: PipelineStage = {
+        id: event.stageId || previous?.id || `${pipeline.id}:${event.stageName}`,
+        stageName: event.stageName,
+        component: event.component || previous?.component || '',
+        status: completed ? completed.status : StageStatus.RUNNING,
+        startedAt,
+        completedAt,
+        errorMessage: completed?.errorMessage ?? earlier?.errorMessage,
+        details: (event.type === 'stage_started' ? undefined : event.details) ?? earlier?.details,
+        duration: completed ? completed.duration ?? elapsedSeconds(startedAt, completedAt) : earlier?.duration
+    };
+
+    // Stages are only known once details were loaded; don't invent a partial list
+    const updatedStages = index >= 0
+        ? stages.map((s, i) => i === index ? stage : s)
+        : stages.length > 0 ? [...stages, stage] : stages;
+
+    return {
+        ...pipeline,
+        // A stage starting means the pipeline has started
+        status: pipeline.status === PipelineStatus.PENDING && stage.status === StageStatus.RUNNING
+            ? PipelineStatus.RUNNING
+            : pipeline.status,
+        stages: updatedStages,
+        stageCount: Math.max(pipeline.stageCount || 0, updatedStages.length, 1)
+    };
+}
+
+/** Events use lowercase statuses and a few aliases; the models use the API's uppercase ones. */
+export function normalizeEventStatus(status: any): string | undefined {
+    if (typeof status !== 'string' || !status) {
+        return undefined;
+    }
+    const upper = status.toUpperCase();
+    if (upper === 'SUCCESS' || upper === 'COMPLETED') {
+        return 'SUCCEEDED';
+    }
+    if (upper === 'ERROR') {
+        return 'FAILED';
+    }
+    return upper;
+}
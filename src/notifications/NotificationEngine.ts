@@ -0,0 +1,193 @@
+import * as vscode from 'vscode';
+import { Pipeline, PipelineStatus, StageStatus } from '../models/Pipeline';
+import { PipelineEvent, getEventStatus } from '../models/PipelineEvent';
+import { NotificationRule, NotificationSubject, rulesFromLevel, shouldNotify } from './NotificationRules';
+
+const DO_NOT_DISTURB_STATE_KEY = 'thinkube-cicd.doNotDisturb';
+
+const OPEN_TIMELINE = 'Open Timeline';
+const OPEN_LOGS = 'Open Logs';
+const RETRY = 'Retry';
+const SHOW_PIPELINES = 'Show Pipelines';
+
+type Severity = 'error' | 'warning' | 'info';
+
+/**
+ * Turns realtime events into notifications according to the configured
+ * rules. In merge mode, events arriving within the merge window are shown
+ * as a single notification, keeping only the latest status of each
+ * pipeline and stage.
+ */
+export class NotificationEngine implements vscode.Disposable {
+    private _onDidChangeDoNotDisturb = new vscode.EventEmitter<boolean>();
+    readonly onDidChangeDoNotDisturb = this._onDidChangeDoNotDisturb.event;
+
+    private _pending = new Map<string, NotificationSubject>();
+    private _mergeTimer: NodeJS.Timeout | null = null;
+
+    constructor(
+        private readonly globalState: vscode.Memento,
+        private readonly lookupPipeline: (pipelineId: string) => Pipeline | undefined
+    ) {}
+
+    isDoNotDisturb(): boolean {
+        return this.globalState.get<boolean>(DO_NOT_DISTURB_STATE_KEY, false);
+    }
+
+    async setDoNotDisturb(enabled: boolean): Promise<void> {
+        await this.globalState.update(DO_NOT_DISTURB_STATE_KEY, enabled);
+        if (enabled) {
+            // Don't show what was queued before
+            this.clearPending();
+        }
+        this._onDidChangeDoNotDisturb.fire(enabled);
+    }
+
+    handleEvent(event: PipelineEvent): void {
+        const config = vscode.workspace.getConfiguration('thinkube-cicd');
+        if (!config.get<boolean>('showNotifications', true) || this.isDoNotDisturb()) {
+            return;
+        }
+
+        const subject = this.toSubject(event);
+        if (!subject || !shouldNotify(this.getRules(config), subject)) {
+            return;
+        }
+
+        if (config.get<string>('notificationMode', 'immediate') !== 'merge') {
+            this.show([subject]);
+            return;
+        }
+
+        this._pending.set(`${subject.pipelineId}:${subject.stageName || ''}`, subject);
+        if (!this._mergeTimer) {
+            const window = config.get<number>('notificationMergeWindow', 5000);
+            this._mergeTimer = setTimeout(() => {
+                this._mergeTimer = null;
+                const subjects = [...this._pending.values()];
+                this._pending.clear();
+                this.show(subjects);
+            }, window);
+        }
+    }
+
+    dispose() {
+        this.clearPending();
+        this._onDidChangeDoNotDisturb.dispose();
+    }
+
+    private getRules(config: vscode.WorkspaceConfiguration): NotificationRule[] {
+        const rules = config.get<NotificationRule[]>('notificationRules', []);
+        if (Array.isArray(rules) && rules.length > 0) {
+            return rules;
+        }
+        return rulesFromLevel(config.get<string>('notificationLevel', 'failures'));
+    }
+
+    private toSubject(event: PipelineEvent): NotificationSubject | undefined {
+        const status = getEventStatus(event);
+        if (!status) {
+            return undefined;
+        }
+
+        // Events don't always carry the trigger; the listed pipeline does
+        const pipeline = this.lookupPipeline(event.pipelineId);
+        const trigger = event.type === 'pipeline_started' || event.type === 'pipeline_finished' ? event : undefined;
+        return {
+            pipelineId: event.pipelineId,
+            appName: event.appName || pipeline?.appName,
+            branch: trigger?.branch || pipeline?.trigger.branch,
+            triggerUser: trigger?.triggerUser || pipeline?.trigger.user,
+            stageName: event.type === 'stage_started' || event.type === 'stage_completed' ? event.stageName : undefined,
+            status
+        };
+    }
+
+    private async show(subjects: NotificationSubject[]) {
+        if (subjects.length === 0 || this.isDoNotDisturb()) {
+            return;
+        }
+
+        const severity = subjects.map(subject => getSeverity(subject.status))
+            .reduce((worst, next) => SEVERITY_ORDER.indexOf(next) < SEVERITY_ORDER.indexOf(worst) ? next : worst);
+        const pipelineIds = new Set(subjects.map(subject => subject.pipelineId));
+
+        if (pipelineIds.size > 1) {
+            const summary = subjects.map(subject => `${describe(subject)} ${subject.status}`).join(', ');
+            const selection = await showMessage(severity, `${subjects.length} pipeline updates: ${summary}`, [SHOW_PIPELINES]);
+            if (selection === SHOW_PIPELINES) {
+                vscode.commands.executeCommand('thinkube-cicd.pipelines.focus');
+            }
+            return;
+        }
+
+        // All about one pipeline: lead with its own status if it changed
+        const latest = subjects.find(subject => !subject.stageName) || subjects[subjects.length - 1];
+        const message = subjects.map(subject => `${describe(subject)} ${subject.status}`).join(', ');
+        const logsStage = this.findLogsStage(latest);
+        const actions = [OPEN_TIMELINE];
+        if (logsStage) {
+            actions.push(OPEN_LOGS);
+        }
+        // Only a finished run can be retried; a failed stage alone doesn't mean the pipeline stopped
+        const pipelineStatus = this.lookupPipeline(latest.pipelineId)?.status ??
+            [...subjects].reverse().find(subject => !subject.stageName)?.status;
+        if (pipelineStatus === PipelineStatus.FAILED || pipelineStatus === PipelineStatus.CANCELLED) {
+            actions.push(RETRY);
+        }
+
+        const selection = await showMessage(severity, message, actions);
+        if (selection === OPEN_TIMELINE) {
+            vscode.commands.executeCommand('thinkube-cicd.showTimeline', latest.pipelineId);
+        } else if (selection === OPEN_LOGS) {
+            vscode.commands.executeCommand('thinkube-cicd.openStageLogs', latest.pipelineId, logsStage);
+        } else if (selection === RETRY) {
+            vscode.commands.executeCommand('thinkube-cicd.retryPipeline', latest.pipelineId);
+        }
+    }
+
+    /** The stage whose logs explain the notification: the stage itself, or the pipeline's failed stage. */
+    private findLogsStage(subject: NotificationSubject): string | undefined {
+        if (subject.stageName) {
+            return subject.stageName;
+        }
+        const stages = this.lookupPipeline(subject.pipelineId)?.stages || [];
+        return stages.find(stage => stage.status === StageStatus.FAILED)?.stageName;
+    }
+
+    private clearPending() {
+        if (this._mergeTimer) {
+            clearTimeout(this._mergeTimer);
+            this._mergeTimer = null;
+        }
+        this._pending.clear();
+    }
+}
+
+const SEVERITY_ORDER: Severity[] = ['error', 'warning', 'info'];
+
+function getSeverity(status: string): Severity {
+    if (status === PipelineStatus.FAILED) {
+        return 'error';
+    }
+    if (status === PipelineStatus.CANCELLED) {
+        return 'warning';
+    }
+    return 'info';
+}
+
+function describe(subject: NotificationSubject): string {
+    const app = subject.appName || subject.pipelineId.slice(0, 8);
+    return subject.stageName ? `${app} ${subject.stageName}` : app;
+}
+
+function showMessage(severity: Severity, message: string, actions: string[]): Thenable<string | undefined> {
+    switch (severity) {
+        case 'error':
+            return vscode.window.showErrorMessage(message, ...actions);
+        case 'warning':
+            return vscode.window.showWarningMessage(message, ...actions);
+        default:
+            return vscode.window.showInformationMessage(message, ...actions);
+    }
+}
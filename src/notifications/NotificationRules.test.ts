@@ -0,0 +1,58 @@
+import test from 'node:test';
+import * as assert from 'node:assert/strict';
+import { NotificationSubject, rulesFromLevel, shouldNotify } from './NotificationRules';
+
+const failed: NotificationSubject = { pipelineId: 'p1', appName: 'shop', branch: 'main', triggerUser: 'alice', status: 'FAILED' };
+const succeeded: NotificationSubject = { ...failed, status: 'SUCCEEDED' };
+const stageFailed: NotificationSubject = { ...failed, stageName: 'build' };
+
+test('turns the notification level into rules', () => {
+    assert.equal(shouldNotify(rulesFromLevel('failures'), failed), true);
+    assert.equal(shouldNotify(rulesFromLevel('failures'), succeeded), false);
+    assert.equal(shouldNotify(rulesFromLevel('failures'), stageFailed), true);
+    assert.equal(shouldNotify(rulesFromLevel('failures'), { ...stageFailed, status: 'SUCCEEDED' }), false);
+    assert.equal(shouldNotify(rulesFromLevel('all'), succeeded), true);
+    assert.equal(shouldNotify(rulesFromLevel('all'), stageFailed), true);
+    assert.equal(shouldNotify(rulesFromLevel('none'), failed), false);
+});
+
+test('lets the first matching rule decide', () => {
+    const rules = [{ app: 'shop', notify: false }, {}];
+    assert.equal(shouldNotify(rules, failed), false);
+    assert.equal(shouldNotify(rules, { ...failed, appName: 'blog' }), true);
+    assert.equal(shouldNotify([{}, { app: 'shop', notify: false }], failed), true);
+    assert.equal(shouldNotify([], failed), false);
+});
+
+test('matches wildcards case-insensitively', () => {
+    assert.equal(shouldNotify([{ branch: 'release/*' }], { ...failed, branch: 'Release/1.2' }), true);
+    assert.equal(shouldNotify([{ branch: 'release/*' }], failed), false);
+    assert.equal(shouldNotify([{ app: '*-api' }], { ...failed, appName: 'orders-api' }), true);
+    assert.equal(shouldNotify([{ triggerUser: 'ALICE' }], failed), true);
+    assert.equal(shouldNotify([{ triggerUser: 'bob' }], failed), false);
+    assert.equal(shouldNotify([{ triggerUser: 'alice' }], { ...failed, triggerUser: undefined }), false);
+});
+
+test('treats pattern characters other than * literally', () => {
+    assert.equal(shouldNotify([{ app: 'shop.v2' }], { ...failed, appName: 'shop.v2' }), true);
+    assert.equal(shouldNotify([{ app: 'shop.v2' }], { ...failed, appName: 'shopxv2' }), false);
+    assert.equal(shouldNotify([{ branch: 'fix(api)+' }], { ...failed, branch: 'fix(api)+' }), true);
+    assert.equal(shouldNotify([{ branch: '[main]' }], failed), false);
+});
+
+test('keeps stage rules and pipeline rules apart', () => {
+    assert.equal(shouldNotify([{ stage: 'build' }], stageFailed), true);
+    assert.equal(shouldNotify([{ stage: 'test' }], stageFailed), false);
+    assert.equal(shouldNotify([{ stage: '*' }], stageFailed), true);
+    assert.equal(shouldNotify([{ stage: '*' }], failed), false);
+    assert.equal(shouldNotify([{ stage: '*', notify: false }, {}], failed), true);
+    assert.equal(shouldNotify([{}], stageFailed), false);
+});
+
+test('filters on status in any case', () => {
+    const rules = [{ status: ['failed', 'CANCELLED'] }];
+    assert.equal(shouldNotify(rules, failed), true);
+    assert.equal(shouldNotify(rules, { ...failed, status: 'CANCELLED' }), true);
+    assert.equal(shouldNotify(rules, succeeded), false);
+    assert.equal(shouldNotify([{ status: [] }], succeeded), true);
+});
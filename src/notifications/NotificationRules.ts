@@ -0,0 +1,72 @@
+/**
+ * A notification rule from `thinkube-cicd.notificationRules`. Every field
+ * that is set must match; text fields accept `*` wildcards. Rules without
+ * `stage` match pipeline events only, `"stage": "*"` matches any stage.
+ */
+export interface NotificationRule {
+    app?: string;
+    branch?: string;
+    stage?: string;
+    triggerUser?: string;
+    status?: string[];         // Uppercase statuses, e.g. ["FAILED", "CANCELLED"]; any when omitted
+    notify?: boolean;          // false silences matching events; defaults to true
+}
+
+/** What a realtime event is about, filled in from the pipeline where the event lacks it. */
+export interface NotificationSubject {
+    pipelineId: string;
+    appName?: string;
+    branch?: string;
+    triggerUser?: string;
+    stageName?: string;        // Set for stage events
+    status: string;            // Normalized, uppercase
+}
+
+/** The rules `thinkube-cicd.notificationLevel` stands for when no rules are configured. */
+export function rulesFromLevel(level: string): NotificationRule[] {
+    switch (level) {
+        case 'all':
+            return [{}, { stage: '*' }];
+        case 'none':
+            return [];
+        default:
+            // Any failure, of the pipeline or of one of its stages
+            return [{ status: ['FAILED'] }, { stage: '*', status: ['FAILED'] }];
+    }
+}
+
+/** Whether the subject should be notified: the first matching rule decides. */
+export function shouldNotify(rules: NotificationRule[], subject: NotificationSubject): boolean {
+    const rule = rules.find(candidate => matchesRule(candidate, subject));
+    return !!rule && rule.notify !== false;
+}
+
+function matchesRule(rule: NotificationRule, subject: NotificationSubject): boolean {
+    // Rules with a stage, even "*", never match pipeline events
+    if (rule.stage === undefined ? subject.stageName !== undefined
+        : subject.stageName === undefined || !matchesPattern(rule.stage, subject.stageName)) {
+        return false;
+    }
+    if (rule.status && rule.status.length > 0 &&
+        !rule.status.some(status => status.toUpperCase() === subject.status)) {
+        return false;
+    }
+    return matchesPattern(rule.app, subject.appName) &&
+        matchesPattern(rule.branch, subject.branch) &&
+        matchesPattern(rule.triggerUser, subject.triggerUser);
+}
+
+/** Case-insensitive match with `*` wildcards; an unset pattern matches anything. */
+function matchesPattern(pattern: string | undefined, value: string | undefined): boolean {
+    if (pattern === undefined || pattern === '' || pattern === '*') {
+        return true;
+    }
+    if (value === undefined) {
+        return false;
+    }
+    const regex = new RegExp(
+        '^' + pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*') + '$',
+        'i'
+    );
+    return regex.test(value);
+}
@@ -0,0 +1,112 @@
+import * as vscode from 'vscode';
+
+export interface ConnectionProfile {
+    name: string;
+    apiUrl: string;
+    defaultApp?: string;
+}
+
+export const DEFAULT_PROFILE_NAME = 'default';
+const DEFAULT_API_URL = 'https://control.thinkube.com';
+const ACTIVE_PROFILE_STATE_KEY = 'thinkube-cicd.activeProfile';
+
+/**
+ * Named Control Hub connections from the `thinkube-cicd.profiles` setting.
+ * Without any configured profiles there is a single implicit "default"
+ * profile built from `thinkube-cicd.apiUrl` and `thinkube-cicd.defaultApp`.
+ */
+export class ProfileManager implements vscode.Disposable {
+    private _onDidChangeActiveProfile = new vscode.EventEmitter<ConnectionProfile>();
+    readonly onDidChangeActiveProfile = this._onDidChangeActiveProfile.event;
+
+    private _onDidChangeProfiles = new vscode.EventEmitter<void>();
+    readonly onDidChangeProfiles = this._onDidChangeProfiles.event;
+
+    private _activeProfile: ConnectionProfile;
+    private _disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly globalState: vscode.Memento) {
+        this._activeProfile = this._resolveActiveProfile();
+
+        this._disposables.push(
+            this._onDidChangeActiveProfile,
+            this._onDidChangeProfiles,
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration('thinkube-cicd.profiles') ||
+                    e.affectsConfiguration('thinkube-cicd.apiUrl') ||
+                    e.affectsConfiguration('thinkube-cicd.defaultApp')) {
+                    this._onDidChangeProfiles.fire();
+                    this._reloadActiveProfile();
+                }
+            })
+        );
+    }
+
+    getProfiles(): ConnectionProfile[] {
+        const config = vscode.workspace.getConfiguration('thinkube-cicd');
+        const configured = (config.get<ConnectionProfile[]>('profiles') || [])
+            .filter(profile => profile && profile.name && profile.apiUrl);
+
+        if (configured.length > 0) {
+            return configured.map(profile => ({
+                name: profile.name,
+                apiUrl: profile.apiUrl.replace(/\/+$/, ''),
+                defaultApp: profile.defaultApp || undefined
+            }));
+        }
+
+        return [{
+            name: DEFAULT_PROFILE_NAME,
+            apiUrl: config.get<string>('apiUrl', DEFAULT_API_URL).replace(/\/+$/, ''),
+            defaultApp: config.get<string>('defaultApp') || undefined
+        }];
+    }
+
+    getActiveProfile(): ConnectionProfile {
+        return this._activeProfile;
+    }
+
+    hasMultipleProfiles(): boolean {
+        return this.getProfiles().length > 1;
+    }
+
+    async setActiveProfile(name: string): Promise<void> {
+        const profile = this.getProfiles().find(p => p.name === name);
+        if (!profile) {
+            throw new Error(`Unknown connection profile "${name}"`);
+        }
+        await this.globalState.update(ACTIVE_PROFILE_STATE_KEY, name);
+        this._setActive(profile);
+    }
+
+    dispose() {
+        while (this._disposables.length) {
+            const x = this._disposables.pop();
+            if (x) {
+                x.dispose();
+            }
+        }
+    }
+
+    private _resolveActiveProfile(): ConnectionProfile {
+        const profiles = this.getProfiles();
+        const activeName = this.globalState.get<string>(ACTIVE_PROFILE_STATE_KEY);
+        return profiles.find(p => p.name === activeName) || profiles[0];
+    }
+
+    private _reloadActiveProfile() {
+        this._setActive(this._resolveActiveProfile());
+    }
+
+    private _setActive(profile: ConnectionProfile) {
+        const previous = this._activeProfile;
+        this._activeProfile = profile;
+
+        // Only reconnect when something that matters for the connection changed
+        if (previous.name !== profile.name ||
+            previous.apiUrl !== profile.apiUrl ||
+            previous.defaultApp !== profile.defaultApp) {
+            this._onDidChangeActiveProfile.fire(profile);
+        }
+    }
+}
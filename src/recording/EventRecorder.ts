@@ -0,0 +1,89 @@
+import * as fs from 'fs';
+import * as vscode from 'vscode';
+import { ObservedResponse } from '../api/ControlHubAPI';
+import { ConnectionProfile } from '../profiles/ProfileManager';
+import { RECORDING_VERSION, RecordingEntry, RecordingHeader } from './Recording';
+
+/**
+ * Writes realtime messages and REST responses to a JSONL recording while
+ * recording is on, for bug reports that need to show what the server sent.
+ */
+export class EventRecorder implements vscode.Disposable {
+    private _stream: fs.WriteStream | null = null;
+    private _uri: vscode.Uri | undefined;
+    private _entryCount = 0;
+
+    private _onDidChangeRecording = new vscode.EventEmitter<boolean>();
+    readonly onDidChangeRecording = this._onDidChangeRecording.event;
+
+    isRecording(): boolean {
+        return this._stream !== null;
+    }
+
+    async start(uri: vscode.Uri, profile: ConnectionProfile): Promise<void> {
+        if (this._stream) {
+            return;
+        }
+
+        const stream = fs.createWriteStream(uri.fsPath, { encoding: 'utf8' });
+        await new Promise<void>((resolve, reject) => {
+            stream.once('open', () => resolve());
+            stream.once('error', reject);
+        });
+        stream.on('error', error => {
+            console.error('Failed to write recording:', error);
+            vscode.window.showErrorMessage(`Recording stopped: ${error.message}`);
+            this.stop();
+        });
+
+        this._stream = stream;
+        this._uri = uri;
+        this._entryCount = 0;
+
+        const header: RecordingHeader = {
+            type: 'recording',
+            version: RECORDING_VERSION,
+            startedAt: Date.now(),
+            profile: profile.name,
+            apiUrl: profile.apiUrl
+        };
+        stream.write(`${JSON.stringify(header)}\n`);
+        this._onDidChangeRecording.fire(true);
+    }
+
+    /** Stops recording and returns where the recording was written and how many entries it holds. */
+    async stop(): Promise<{ uri: vscode.Uri; entryCount: number } | undefined> {
+        const stream = this._stream;
+        const uri = this._uri;
+        if (!stream || !uri) {
+            return undefined;
+        }
+        this._stream = null;
+        this._uri = undefined;
+        this._onDidChangeRecording.fire(false);
+
+        await new Promise<void>(resolve => stream.end(() => resolve()));
+        return { uri, entryCount: this._entryCount };
+    }
+
+    recordMessage(message: unknown, pipelineId?: string): void {
+        this.write({ type: 'message', time: Date.now(), pipelineId, message });
+    }
+
+    recordResponse(response: ObservedResponse): void {
+        this.write({ type: 'response', time: Date.now(), ...response });
+    }
+
+    dispose() {
+        this.stop();
+        this._onDidChangeRecording.dispose();
+    }
+
+    private write(entry: RecordingEntry): void {
+        if (!this._stream) {
+            return;
+        }
+        this._stream.write(`${JSON.stringify(entry)}\n`);
+        this._entryCount++;
+    }
+}
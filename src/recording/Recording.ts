@@ -0,0 +1,86 @@
+import { ObservedResponse } from '../api/ControlHubAPI';
+
+/**
+ * Recordings are JSONL files: a header line, then one entry per realtime
+ * message or REST response in the order they were received. Messages are
+ * kept exactly as the server sent them, before validation, so a replay
+ * goes through the same parsing as the original. Request headers (and so
+ * tokens) are never recorded.
+ */
+
+export const RECORDING_VERSION = 1;
+
+export interface RecordingHeader {
+    type: 'recording';
+    version: number;
+    startedAt: number;         // Epoch milliseconds
+    profile: string;
+    apiUrl: string;
+}
+
+export interface RecordedMessage {
+    type: 'message';
+    time: number;              // Epoch milliseconds
+    pipelineId?: string;       // Set for messages from a per-pipeline socket
+    message: unknown;
+}
+
+export interface RecordedResponse extends ObservedResponse {
+    type: 'response';
+    time: number;              // Epoch milliseconds
+}
+
+export type RecordingEntry = RecordedMessage | RecordedResponse;
+
+export interface Recording {
+    header: RecordingHeader;
+    entries: RecordingEntry[];
+}
+
+export class RecordingFormatError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'RecordingFormatError';
+    }
+}
+
+export function parseRecording(text: string): Recording {
+    const lines = text.split('\n');
+    let header: RecordingHeader | undefined;
+    const entries: RecordingEntry[] = [];
+
+    lines.forEach((line, index) => {
+        if (!line.trim()) {
+            return;
+        }
+        let value: any;
+        try {
+            value = JSON.parse(line);
+        } catch {
+            throw new RecordingFormatError(`Line ${index + 1} is not valid JSON`);
+        }
+
+        if (!header) {
+            if (value?.type !== 'recording' || typeof value.startedAt !== 'number') {
+                throw new RecordingFormatError('Not a Thinkube CI/CD recording: the first line is not a recording header');
+            }
+            if (value.version > RECORDING_VERSION) {
+                throw new RecordingFormatError(`Recording version ${value.version} is newer than this extension supports`);
+            }
+            header = value;
+            return;
+        }
+
+        if ((value?.type !== 'message' && value?.type !== 'response') || typeof value.time !== 'number') {
+            throw new RecordingFormatError(`Line ${index + 1} is not a recorded message or response`);
+        }
+        entries.push(value);
+    });
+
+    if (!header) {
+        throw new RecordingFormatError('The recording is empty');
+    }
+    // Entries are written as they arrive, but don't rely on it when replaying
+    entries.sort((a, b) => a.time - b.time);
+    return { header, entries };
+}
@@ -0,0 +1,120 @@
+import * as vscode from 'vscode';
+import { EventEmitter } from 'events';
+import { AxiosAdapter, AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { settleResponse } from '../mock/MockControlHub';
+import { Recording, RecordedMessage, RecordedResponse, parseRecording } from './Recording';
+
+/**
+ * Plays a recording back: emits 'message' (message, pipelineId) for each
+ * recorded realtime message at the recorded pace divided by speed, and
+ * 'finished' after the last one. Its adapter answers REST requests with
+ * the response recorded for the same request closest before the current
+ * replay position, so the views see what they saw at that time.
+ */
+export class RecordingReplayer extends EventEmitter implements vscode.Disposable {
+    private readonly _messages: RecordedMessage[];
+    private readonly _responses = new Map<string, RecordedResponse[]>();
+    private _next = 0;
+    private _startedAt: number | undefined;    // Epoch milliseconds the replay started
+    private _timer: NodeJS.Timeout | null = null;
+    private _finished = false;
+
+    /** Pass to ControlHubAPI to answer its requests from the recording. */
+    readonly adapter: AxiosAdapter = config => this.handleRequest(config);
+
+    static async load(uri: vscode.Uri, speed: number): Promise<RecordingReplayer> {
+        const data = await vscode.workspace.fs.readFile(uri);
+        return new RecordingReplayer(parseRecording(Buffer.from(data).toString('utf8')), speed);
+    }
+
+    constructor(readonly recording: Recording, readonly speed: number) {
+        super();
+        this._messages = recording.entries.filter((entry): entry is RecordedMessage => entry.type === 'message');
+        for (const entry of recording.entries) {
+            // A 304 only says the previous response still applied, and that one is replayed as is
+            if (entry.type === 'response' && entry.status !== 304) {
+                const key = requestKey(entry.method, entry.url, entry.params);
+                this._responses.set(key, [...(this._responses.get(key) || []), entry]);
+            }
+        }
+    }
+
+    start(): void {
+        if (this._startedAt !== undefined) {
+            return;
+        }
+        this._startedAt = Date.now();
+        this.scheduleNext();
+    }
+
+    /** Milliseconds into the recording the replay has reached. */
+    getPosition(): number {
+        if (this._startedAt === undefined) {
+            return 0;
+        }
+        return Math.min(this.getDuration(), (Date.now() - this._startedAt) * this.speed);
+    }
+
+    /** Milliseconds from the start of the recording to its last entry. */
+    getDuration(): number {
+        const entries = this.recording.entries;
+        return entries.length > 0 ? entries[entries.length - 1].time - this.recording.header.startedAt : 0;
+    }
+
+    isFinished(): boolean {
+        return this._finished;
+    }
+
+    getMessageCount(): number {
+        return this._messages.length;
+    }
+
+    dispose() {
+        if (this._timer) {
+            clearTimeout(this._timer);
+            this._timer = null;
+        }
+        this.removeAllListeners();
+    }
+
+    private scheduleNext(): void {
+        const entry = this._messages[this._next];
+        if (!entry) {
+            this._finished = true;
+            this.emit('finished');
+            return;
+        }
+
+        const due = (entry.time - this.recording.header.startedAt) / this.speed;
+        const delay = Math.max(0, due - (Date.now() - this._startedAt!));
+        this._timer = setTimeout(() => {
+            this._timer = null;
+            this._next++;
+            this.emit('message', entry.message, entry.pipelineId);
+            this.scheduleNext();
+        }, delay);
+    }
+
+    private async handleRequest(config: InternalAxiosRequestConfig): Promise<AxiosResponse> {
+        const candidates = this._responses.get(requestKey((config.method || 'get').toUpperCase(), config.url || '', config.params));
+        if (!candidates) {
+            return settleResponse(config, 404, { detail: 'Not in the recording' });
+        }
+
+        // Requests made before the first recorded one get the first response
+        const now = this.recording.header.startedAt + this.getPosition();
+        const recorded = [...candidates].reverse().find(response => response.time <= now) || candidates[0];
+        if (recorded.status === 0) {
+            throw new AxiosError(recorded.error || 'Network Error', AxiosError.ERR_NETWORK, config);
+        }
+        return settleResponse(config, recorded.status, recorded.data);
+    }
+}
+
+/** Identifies a request by method, path and the parameters that were actually sent. */
+function requestKey(method: string, url: string, params: { [name: string]: any } | undefined): string {
+    const sent = Object.entries(params || {})
+        .filter(([, value]) => value !== undefined && value !== null)
+        .sort(([a], [b]) => a.localeCompare(b));
+    return `${method} ${url} ${JSON.stringify(sent)}`;
+}
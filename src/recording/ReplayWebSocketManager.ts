@@ -0,0 +1,45 @@
+import * as vscode from 'vscode';
+import { ControlHubAPI } from '../api/ControlHubAPI';
+import { WebSocketManager } from '../api/WebSocketManager';
+import { RecordingReplayer } from './RecordingReplayer';
+
+/**
+ * WebSocketManager for replays: feeds recorded messages through the same
+ * validation as live ones instead of opening sockets. Every recorded
+ * message is replayed, whatever the views track now, since the recording
+ * only holds what was subscribed to at the time.
+ */
+export class ReplayWebSocketManager extends WebSocketManager {
+    private readonly onMessage = (message: unknown, pipelineId?: string) => {
+        if (this.isActive) {
+            this.emitPipelineEvent(message, pipelineId);
+        }
+    };
+
+    constructor(api: ControlHubAPI, diagnostics: vscode.LogOutputChannel, private readonly replayer: RecordingReplayer) {
+        super(api, diagnostics);
+    }
+
+    async connect(): Promise<void> {
+        if (this.isActive) {
+            return;
+        }
+        this.isActive = true;
+        this.replayer.on('message', this.onMessage);
+        this.setConnectionState('connected');
+    }
+
+    trackPipeline(pipelineId: string): void {
+        this.subscriptions.add(pipelineId);
+    }
+
+    stopTrackingPipeline(pipelineId: string): void {
+        this.subscriptions.delete(pipelineId);
+    }
+
+    disconnect(): void {
+        this.isActive = false;
+        this.replayer.off('message', this.onMessage);
+        this.setConnectionState('disconnected');
+    }
+}
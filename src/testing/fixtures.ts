@@ -0,0 +1,30 @@
+import { Pipeline, PipelineStage, PipelineStatus, StageStatus } from '../models/Pipeline';
+
+// Pipelines and stages for the unit tests, all starting at this time
+export const START_TIME = 1700000000;
+
+/** A running pipeline p1 of the shop application, pushed to main, without stages unless given. */
+export function makePipeline(overrides: Partial<Pipeline> = {}): Pipeline {
+    return {
+        id: 'p1',
+        appName: 'shop',
+        startTime: START_TIME,
+        status: PipelineStatus.RUNNING,
+        stages: [],
+        trigger: { type: 'git_push', user: 'alice', branch: 'main', commit: 'abc1234def' },
+        ...overrides
+    };
+}
+
+/** A stage of pipeline p1 on the web component, started with the pipeline unless given. */
+export function makeStage(stageName: string, status: StageStatus, overrides: Partial<PipelineStage> = {}): PipelineStage {
+    return {
+        id: `p1:${stageName}`,
+        stageName,
+        component: 'web',
+        status,
+        startedAt: START_TIME,
+        details: {},
+        ...overrides
+    };
+}
@@ -0,0 +1,20 @@
+export function escapeHtml(text: string): string {
+    return String(text)
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/** Formats a duration in seconds as e.g. "45s" or "2m 5s". */
+export function formatDuration(seconds: number): string {
+    if (!seconds || seconds < 0) {
+        return '0s';
+    }
+    if (seconds < 60) {
+        return `${Math.round(seconds)}s`;
+    }
+    const minutes = Math.floor(seconds / 60);
+    const remainder = Math.round(seconds % 60);
+    return remainder ? `${minutes}m ${remainder}s` : `${minutes}m`;
+}
@@ -0,0 +1,47 @@
+import test from 'node:test';
+import * as assert from 'node:assert/strict';
+import { StageStatus } from '../models/Pipeline';
+import { START_TIME, makePipeline, makeStage } from '../testing/fixtures';
+import { buildMermaidGantt } from './gantt';
+
+test('charts stages in the order they started, tagged by status', () => {
+    const pipeline = makePipeline({
+        stages: [
+            makeStage('deploy', StageStatus.FAILED, { startedAt: START_TIME + 40, completedAt: START_TIME + 55 }),
+            makeStage('build', StageStatus.SUCCEEDED, { duration: 30 }),
+            makeStage('test', StageStatus.SKIPPED, { startedAt: START_TIME + 30, completedAt: START_TIME + 30 })
+        ]
+    });
+    assert.equal(buildMermaidGantt(pipeline, START_TIME + 60), [
+        'gantt',
+        '    title shop',
+        '    dateFormat X',
+        '    axisFormat %M:%S',
+        '    section Stages',
+        '    build :done, s0, 0, 30',
+        '    test :done, s1, 30, 31',
+        '    deploy :crit, s2, 40, 55'
+    ].join('\n'));
+});
+
+test('extends running stages up to now', () => {
+    const pipeline = makePipeline({
+        stages: [makeStage('build', StageStatus.RUNNING, { startedAt: START_TIME + 10 })]
+    });
+    assert.match(buildMermaidGantt(pipeline, START_TIME + 25), /\n    build :active, s0, 10, 25$/);
+    assert.match(buildMermaidGantt(pipeline, START_TIME + 90), /\n    build :active, s0, 10, 90$/);
+});
+
+test('strips characters that would break task names', () => {
+    const pipeline = makePipeline({
+        appName: 'shop: #1',
+        stages: [
+            makeStage('build: web #2; fast', StageStatus.SUCCEEDED, { duration: 5 }),
+            makeStage(':#;', StageStatus.SUCCEEDED, { startedAt: START_TIME + 5, duration: 5 })
+        ]
+    });
+    const lines = buildMermaidGantt(pipeline, START_TIME + 10).split('\n');
+    assert.equal(lines[1], '    title shop 1');
+    assert.equal(lines[5], '    build web 2 fast :done, s0, 0, 5');
+    assert.equal(lines[6], '    - :done, s1, 5, 10');
+});
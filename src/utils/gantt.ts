@@ -0,0 +1,28 @@
+import { EpochSeconds, Pipeline, StageStatus, getStageDuration } from '../models/Pipeline';
+
+/**
+ * A Mermaid Gantt chart of the pipeline's stages in the format the Control
+ * Hub generates, for when the one it sent has fallen behind live updates.
+ * Stages still running end at now.
+ */
+export function buildMermaidGantt(pipeline: Pipeline, now: EpochSeconds = Date.now() / 1000): string {
+    const lines = [
+        'gantt',
+        `    title ${toLabel(pipeline.appName)}`,
+        '    dateFormat X',
+        '    axisFormat %M:%S',
+        '    section Stages'
+    ];
+    [...pipeline.stages].sort((a, b) => a.startedAt - b.startedAt).forEach((stage, index) => {
+        const start = Math.max(0, Math.round(stage.startedAt - pipeline.startTime));
+        const end = Math.max(start + 1, Math.round(stage.startedAt + (getStageDuration(stage, now) ?? 0) - pipeline.startTime));
+        const tag = stage.status === StageStatus.FAILED ? 'crit' : stage.status === StageStatus.RUNNING ? 'active' : 'done';
+        lines.push(`    ${toLabel(stage.stageName)} :${tag}, s${index}, ${start}, ${end}`);
+    });
+    return lines.join('\n');
+}
+
+/** Colons, semicolons and hashes would end a Mermaid task name or start a comment. */
+function toLabel(text: string): string {
+    return text.replace(/[:;#\s]+/g, ' ').trim() || '-';
+}
@@ -0,0 +1,184 @@
+import * as vscode from 'vscode';
+import { ControlHubAPI } from '../api/ControlHubAPI';
+import { getGitApi } from '../git/git';
+import { resolveWorkspaceApp } from '../git/workspaceApp';
+import { Pipeline, PipelineStatus, getPipelineDuration } from '../models/Pipeline';
+import { PipelineEvent, applyEventToPipeline } from '../models/PipelineEvent';
+import { ProfileManager } from '../profiles/ProfileManager';
+import { formatDuration } from '../utils/format';
+
+// Fallback reload in case realtime events are missed
+const LATEST_POLL_INTERVAL = 60000;
+
+/**
+ * Shows the status of the latest pipeline of the application the open
+ * workspace belongs to, and opens its timeline on click. Hidden when no
+ * application can be resolved.
+ */
+export class AppStatusBar implements vscode.Disposable {
+    private readonly _item: vscode.StatusBarItem;
+    private _disposables: vscode.Disposable[] = [];
+    private _appName: string | undefined;
+    private _latest: Pipeline | undefined;
+    private _requestId = 0;
+    private _tickTimer: NodeJS.Timeout | null = null;
+    private _pollTimer: NodeJS.Timeout;
+
+    private _onDidChangeLatestPipeline = new vscode.EventEmitter<Pipeline>();
+    readonly onDidChangeLatestPipeline = this._onDidChangeLatestPipeline.event;
+
+    constructor(
+        private readonly profiles: ProfileManager,
+        private readonly getApi: () => ControlHubAPI
+    ) {
+        this._item = vscode.window.createStatusBarItem('thinkube-cicd.appStatus', vscode.StatusBarAlignment.Left, 49);
+        this._item.name = 'Thinkube Pipeline Status';
+
+        this._pollTimer = setInterval(() => this.reload(), LATEST_POLL_INTERVAL);
+        this._disposables.push(
+            this._item,
+            this._onDidChangeLatestPipeline,
+            profiles.onDidChangeActiveProfile(() => this.reload()),
+            vscode.workspace.onDidChangeWorkspaceFolders(() => this.reload())
+        );
+
+        // Repositories are discovered after activation, so the remote may show up later
+        getGitApi().then(git => {
+            if (git) {
+                this._disposables.push(git.onDidOpenRepository(() => this.reload()));
+            }
+        });
+
+        this.reload();
+    }
+
+    async reload(): Promise<void> {
+        const requestId = ++this._requestId;
+        const appName = await resolveWorkspaceApp(this.profiles.getActiveProfile());
+        if (requestId !== this._requestId) {
+            return;
+        }
+
+        this._appName = appName;
+        if (!appName) {
+            this._latest = undefined;
+            this.render();
+            return;
+        }
+
+        const result = await this.getApi().listPipelines({ appName }, 1);
+        // A newer reload (e.g. after a profile switch) wins
+        if (requestId !== this._requestId) {
+            return;
+        }
+        if (result.ok) {
+            this.setLatest(result.value.pipelines[0]);
+        }
+        this.render();
+    }
+
+    /** Applies a realtime event for the displayed run, and reloads when the application starts a new one. */
+    handleEvent(event: PipelineEvent): void {
+        if (!this._appName) {
+            return;
+        }
+        if (this._latest && event.pipelineId === this._latest.id) {
+            this._latest = applyEventToPipeline(this._latest, event);
+            this.render();
+        } else if (event.type === 'pipeline_started' && event.appName === this._appName) {
+            // A newer run of the application started; events of older parallel runs don't change what is shown
+            this.reload();
+        }
+    }
+
+    dispose() {
+        clearInterval(this._pollTimer);
+        this.stopTicking();
+        while (this._disposables.length) {
+            const x = this._disposables.pop();
+            if (x) {
+                x.dispose();
+            }
+        }
+    }
+
+    private setLatest(pipeline: Pipeline | undefined) {
+        const changed = pipeline?.id !== this._latest?.id;
+        this._latest = pipeline;
+        if (pipeline && changed) {
+            this._onDidChangeLatestPipeline.fire(pipeline);
+        }
+    }
+
+    private render() {
+        const pipeline = this._latest;
+        if (!this._appName) {
+            this.stopTicking();
+            this._item.hide();
+            return;
+        }
+
+        if (!pipeline) {
+            this.stopTicking();
+            this._item.text = `$(circle-outline) ${this._appName}`;
+            this._item.tooltip = `No pipelines for ${this._appName} yet`;
+            this._item.command = undefined;
+            this._item.backgroundColor = undefined;
+            this._item.show();
+            return;
+        }
+
+        const isActive = pipeline.status === PipelineStatus.RUNNING || pipeline.status === PipelineStatus.PENDING;
+        const elapsed = formatDuration(getPipelineDuration(pipeline, Date.now() / 1000) ?? 0);
+
+        this._item.text = `${getStatusIcon(pipeline.status)} ${pipeline.appName} ${elapsed}`;
+        this._item.tooltip = `${pipeline.appName}: ${pipeline.status}` +
+            `${pipeline.trigger.branch ? ` on ${pipeline.trigger.branch}` : ''}\n` +
+            `Started ${new Date(pipeline.startTime * 1000).toLocaleString()}\n` +
+            'Click to open the timeline';
+        this._item.backgroundColor = pipeline.status === PipelineStatus.FAILED
+            ? new vscode.ThemeColor('statusBarItem.errorBackground')
+            : undefined;
+        this._item.command = {
+            command: 'thinkube-cicd.showTimeline',
+            title: 'Show Pipeline Timeline',
+            arguments: [pipeline.id]
+        };
+        this._item.show();
+
+        // Keep the elapsed time of a running pipeline current
+        if (isActive) {
+            this.startTicking();
+        } else {
+            this.stopTicking();
+        }
+    }
+
+    private startTicking() {
+        if (!this._tickTimer) {
+            this._tickTimer = setInterval(() => this.render(), 1000);
+        }
+    }
+
+    private stopTicking() {
+        if (this._tickTimer) {
+            clearInterval(this._tickTimer);
+            this._tickTimer = null;
+        }
+    }
+}
+
+function getStatusIcon(status: PipelineStatus): string {
+    switch (status) {
+        case PipelineStatus.SUCCEEDED:
+            return '$(check)';
+        case PipelineStatus.FAILED:
+            return '$(error)';
+        case PipelineStatus.RUNNING:
+            return '$(sync~spin)';
+        case PipelineStatus.CANCELLED:
+            return '$(circle-slash)';
+        default:
+            return '$(clock)';
+    }
+}
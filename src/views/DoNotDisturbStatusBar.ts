@@ -0,0 +1,43 @@
+import * as vscode from 'vscode';
+import { NotificationEngine } from '../notifications/NotificationEngine';
+
+/**
+ * Bell in the status bar that toggles "Do not disturb" for pipeline
+ * notifications on click.
+ */
+export class DoNotDisturbStatusBar implements vscode.Disposable {
+    private readonly _item: vscode.StatusBarItem;
+    private _disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly notifications: NotificationEngine) {
+        this._item = vscode.window.createStatusBarItem('thinkube-cicd.doNotDisturb', vscode.StatusBarAlignment.Right, 100);
+        this._item.name = 'Thinkube Notifications';
+        this._item.command = 'thinkube-cicd.toggleDoNotDisturb';
+
+        this._disposables.push(
+            this._item,
+            notifications.onDidChangeDoNotDisturb(() => this.update())
+        );
+        this.update();
+    }
+
+    update() {
+        if (this.notifications.isDoNotDisturb()) {
+            this._item.text = '$(bell-slash)';
+            this._item.tooltip = 'Pipeline notifications: do not disturb\nClick to turn notifications back on';
+        } else {
+            this._item.text = '$(bell)';
+            this._item.tooltip = 'Pipeline notifications: on\nClick to turn on do not disturb';
+        }
+        this._item.show();
+    }
+
+    dispose() {
+        while (this._disposables.length) {
+            const x = this._disposables.pop();
+            if (x) {
+                x.dispose();
+            }
+        }
+    }
+}
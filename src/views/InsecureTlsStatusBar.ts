@@ -0,0 +1,35 @@
+import * as vscode from 'vscode';
+
+/**
+ * Warns in the status bar for as long as Control Hub certificates aren't
+ * verified, and opens the setting on click. Hidden in strict mode.
+ */
+export class InsecureTlsStatusBar implements vscode.Disposable {
+    private readonly _item: vscode.StatusBarItem;
+
+    constructor() {
+        this._item = vscode.window.createStatusBarItem('thinkube-cicd.insecureTls', vscode.StatusBarAlignment.Left, 51);
+        this._item.name = 'Thinkube TLS Verification';
+        this._item.text = '$(unlock) Insecure TLS';
+        this._item.tooltip = 'Control Hub certificates are not verified (thinkube-cicd.tls.mode is "insecure")\n' +
+            'Click to change the setting';
+        this._item.command = {
+            title: 'Open TLS Settings',
+            command: 'workbench.action.openSettings',
+            arguments: ['thinkube-cicd.tls']
+        };
+        this._item.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+    }
+
+    update(insecure: boolean) {
+        if (insecure) {
+            this._item.show();
+        } else {
+            this._item.hide();
+        }
+    }
+
+    dispose() {
+        this._item.dispose();
+    }
+}
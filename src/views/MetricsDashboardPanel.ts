@@ -0,0 +1,342 @@
+import * as vscode from 'vscode';
+import { PipelineMetrics } from '../models/Pipeline';
+import { ControlHubAPI } from '../api/ControlHubAPI';
+import { escapeHtml, formatDuration } from '../utils/format';
+
+export const METRICS_PERIODS = ['24h', '7d', '30d', '90d'];
+
+export class MetricsDashboardPanel {
+    public static currentPanel: MetricsDashboardPanel | undefined;
+    private readonly _panel: vscode.WebviewPanel;
+    private _api: ControlHubAPI;
+    private _appNames: string[] = [];
+    private _period = '7d';
+    private _requestId = 0;
+    private _disposables: vscode.Disposable[] = [];
+
+    public static render(extensionUri: vscode.Uri, api: ControlHubAPI, appNames: string[], period: string = '7d') {
+        const column = vscode.window.activeTextEditor
+            ? vscode.window.activeTextEditor.viewColumn
+            : undefined;
+
+        if (MetricsDashboardPanel.currentPanel) {
+            // The active profile may have changed since the panel was opened
+            MetricsDashboardPanel.currentPanel._api = api;
+            MetricsDashboardPanel.currentPanel._panel.reveal(column);
+            MetricsDashboardPanel.currentPanel._update(appNames, period);
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            'pipelineMetrics',
+            'Pipeline Metrics',
+            column || vscode.ViewColumn.One,
+            {
+                enableScripts: true,
+                localResourceRoots: [vscode.Uri.joinPath(extensionUri, 'media')]
+            }
+        );
+
+        MetricsDashboardPanel.currentPanel = new MetricsDashboardPanel(panel, api);
+        MetricsDashboardPanel.currentPanel._update(appNames, period);
+    }
+
+    private constructor(panel: vscode.WebviewPanel, api: ControlHubAPI) {
+        this._panel = panel;
+        this._api = api;
+
+        this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+        this._panel.webview.onDidReceiveMessage(message => {
+            switch (message.command) {
+                case 'setPeriod':
+                    this._update(this._appNames, message.period);
+                    break;
+                case 'compare':
+                    vscode.commands.executeCommand('thinkube-cicd.showMetrics', this._appNames);
+                    break;
+            }
+        }, null, this._disposables);
+    }
+
+    public dispose() {
+        MetricsDashboardPanel.currentPanel = undefined;
+        this._panel.dispose();
+        while (this._disposables.length) {
+            const x = this._disposables.pop();
+            if (x) {
+                x.dispose();
+            }
+        }
+    }
+
+    private async _update(appNames: string[], period: string) {
+        const requestId = ++this._requestId;
+        this._appNames = appNames;
+        this._period = METRICS_PERIODS.includes(period) ? period : '7d';
+        this._panel.title = appNames.length === 1
+            ? `Metrics: ${appNames[0]}`
+            : `Metrics: ${appNames.length} applications`;
+        this._panel.webview.html = this._getHtmlForWebview([], [], true);
+
+        const results = await Promise.allSettled(
+            appNames.map(appName => this._api.getMetrics(appName, this._period))
+        );
+
+        const metrics: PipelineMetrics[] = [];
+        const failedApps: string[] = [];
+        results.forEach((result, index) => {
+            if (result.status === 'fulfilled' && result.value) {
+                metrics.push({ ...result.value, appName: result.value.appName || appNames[index] });
+            } else {
+                failedApps.push(appNames[index]);
+            }
+        });
+
+        // A newer request may have replaced this one while we were waiting
+        if (requestId !== this._requestId) {
+            return;
+        }
+        this._panel.webview.html = this._getHtmlForWebview(metrics, failedApps, false);
+    }
+
+    private _getHtmlForWebview(metrics: PipelineMetrics[], failedApps: string[], loading: boolean) {
+        const periodButtons = METRICS_PERIODS.map(period => `
+            <button class="period ${period === this._period ? 'active' : ''}" onclick="setPeriod('${period}')">${period}</button>
+        `).join('');
+
+        let content: string;
+        if (loading) {
+            content = '<div class="empty">Loading metrics...</div>';
+        } else if (metrics.length === 0) {
+            content = '<div class="empty">No metrics available for the selected period</div>';
+        } else {
+            content = `
+                ${this._generateSummaryCards(metrics)}
+                <div class="charts">
+                    ${this._generateBarChart('Success Rate', metrics, m => m.successRate, 100, v => `${v.toFixed(1)}%`, true)}
+                    ${this._generateBarChart('Average Duration', metrics, m => m.averageDuration, undefined, formatDuration)}
+                    ${this._generateBarChart('Deployment Frequency', metrics, m => m.deploymentFrequency, undefined, v => `${v.toFixed(1)}/day`)}
+                </div>
+                <h2>Failure Reasons</h2>
+                <div class="charts">
+                    ${metrics.map(m => this._generateFailureChart(m)).join('')}
+                </div>
+            `;
+        }
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Pipeline Metrics</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            color: var(--vscode-foreground);
+            background-color: var(--vscode-editor-background);
+            padding: 20px;
+            margin: 0;
+        }
+        .toolbar {
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            margin-bottom: 24px;
+        }
+        .toolbar .spacer {
+            flex: 1;
+        }
+        button {
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+            border: none;
+            padding: 4px 10px;
+            border-radius: 3px;
+            cursor: pointer;
+        }
+        button.active, button.primary {
+            background: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+        }
+        .summary {
+            display: grid;
+            grid-template-columns: repeat(auto-fill, minmax(220px, 1fr));
+            gap: 12px;
+            margin-bottom: 30px;
+        }
+        .card {
+            padding: 12px 16px;
+            border: 1px solid var(--vscode-widget-border);
+            border-radius: 8px;
+        }
+        .card h3 {
+            margin: 0 0 8px 0;
+        }
+        .card .stat {
+            display: flex;
+            justify-content: space-between;
+            font-size: 13px;
+            color: var(--vscode-descriptionForeground);
+        }
+        .charts {
+            display: grid;
+            grid-template-columns: repeat(auto-fill, minmax(320px, 1fr));
+            gap: 20px;
+            margin-bottom: 30px;
+        }
+        .chart {
+            padding: 16px;
+            border: 1px solid var(--vscode-widget-border);
+            border-radius: 8px;
+        }
+        .chart h3 {
+            margin: 0 0 12px 0;
+            font-size: 14px;
+        }
+        .bar-row {
+            display: flex;
+            align-items: center;
+            height: 22px;
+            margin-bottom: 4px;
+            font-size: 12px;
+        }
+        .bar-label {
+            width: 120px;
+            padding-right: 10px;
+            text-align: right;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+            flex-shrink: 0;
+        }
+        .bar-track {
+            flex: 1;
+            height: 16px;
+            background: var(--vscode-editor-lineHighlightBackground);
+            border-radius: 3px;
+        }
+        .bar {
+            height: 100%;
+            border-radius: 3px;
+            background: #5DADE2;
+            min-width: 2px;
+        }
+        .bar.good {
+            background: #82E0AA;
+        }
+        .bar.warn {
+            background: #F8C471;
+        }
+        .bar.bad, .bar.failure {
+            background: #ff6b6b;
+        }
+        .bar-value {
+            width: 70px;
+            padding-left: 8px;
+            flex-shrink: 0;
+        }
+        .empty {
+            text-align: center;
+            color: var(--vscode-descriptionForeground);
+            padding: 20px;
+        }
+        .warning {
+            color: var(--vscode-errorForeground);
+            margin-bottom: 16px;
+        }
+    </style>
+</head>
+<body>
+    <div class="toolbar">
+        <strong>Period:</strong>
+        ${periodButtons}
+        <div class="spacer"></div>
+        <button class="primary" onclick="compare()">Compare Applications...</button>
+    </div>
+
+    ${failedApps.length > 0 ? `<div class="warning">Could not load metrics for: ${failedApps.map(escapeHtml).join(', ')}</div>` : ''}
+
+    ${content}
+
+    <script>
+        const vscode = acquireVsCodeApi();
+
+        function setPeriod(period) {
+            vscode.postMessage({ command: 'setPeriod', period });
+        }
+
+        function compare() {
+            vscode.postMessage({ command: 'compare' });
+        }
+    </script>
+</body>
+</html>`;
+    }
+
+    private _generateSummaryCards(metrics: PipelineMetrics[]) {
+        const cards = metrics.map(m => `
+            <div class="card">
+                <h3>${escapeHtml(m.appName)}</h3>
+                <div class="stat"><span>Pipelines</span><span>${m.totalPipelines}</span></div>
+                <div class="stat"><span>Success rate</span><span>${m.successRate.toFixed(1)}%</span></div>
+                <div class="stat"><span>Average duration</span><span>${formatDuration(m.averageDuration)}</span></div>
+                <div class="stat"><span>Deployments</span><span>${m.deploymentFrequency.toFixed(1)}/day</span></div>
+            </div>
+        `).join('');
+
+        return `<div class="summary">${cards}</div>`;
+    }
+
+    private _generateBarChart(
+        title: string,
+        metrics: PipelineMetrics[],
+        value: (m: PipelineMetrics) => number,
+        max: number | undefined,
+        format: (v: number) => string,
+        rateColors: boolean = false
+    ) {
+        const scale = max || Math.max(...metrics.map(value), 1);
+
+        const rows = metrics.map(m => {
+            const v = value(m) || 0;
+            let barClass = '';
+            if (rateColors) {
+                barClass = v >= 90 ? 'good' : v >= 70 ? 'warn' : 'bad';
+            }
+            return `
+                <div class="bar-row">
+                    <div class="bar-label" title="${escapeHtml(m.appName)}">${escapeHtml(m.appName)}</div>
+                    <div class="bar-track">
+                        <div class="bar ${barClass}" style="width: ${Math.min((v / scale) * 100, 100)}%;"></div>
+                    </div>
+                    <div class="bar-value">${format(v)}</div>
+                </div>
+            `;
+        }).join('');
+
+        return `<div class="chart"><h3>${title}</h3>${rows}</div>`;
+    }
+
+    private _generateFailureChart(metrics: PipelineMetrics) {
+        const reasons = Object.entries(metrics.failureReasons || {}).sort((a, b) => b[1] - a[1]);
+        if (reasons.length === 0) {
+            return `<div class="chart"><h3>${escapeHtml(metrics.appName)}</h3><div class="empty">No failures</div></div>`;
+        }
+
+        const total = reasons.reduce((sum, [, count]) => sum + count, 0);
+        const max = reasons[0][1];
+
+        const rows = reasons.map(([reason, count]) => `
+            <div class="bar-row">
+                <div class="bar-label" title="${escapeHtml(reason)}">${escapeHtml(reason)}</div>
+                <div class="bar-track">
+                    <div class="bar failure" style="width: ${(count / max) * 100}%;"></div>
+                </div>
+                <div class="bar-value">${count} (${Math.round((count / total) * 100)}%)</div>
+            </div>
+        `).join('');
+
+        return `<div class="chart"><h3>${escapeHtml(metrics.appName)}</h3>${rows}</div>`;
+    }
+}
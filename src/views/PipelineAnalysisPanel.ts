@@ -0,0 +1,209 @@
+import * as vscode from 'vscode';
+import { AnalysisItem, Pipeline } from '../models/Pipeline';
+import { AnalysisResult } from '../analysis/PipelineAnalyzer';
+import { escapeHtml } from '../utils/format';
+
+export class PipelineAnalysisPanel {
+    public static currentPanel: PipelineAnalysisPanel | undefined;
+    private readonly _panel: vscode.WebviewPanel;
+    private _disposables: vscode.Disposable[] = [];
+
+    public static render(pipeline: Pipeline, result: AnalysisResult) {
+        const column = vscode.window.activeTextEditor
+            ? vscode.window.activeTextEditor.viewColumn
+            : undefined;
+
+        if (PipelineAnalysisPanel.currentPanel) {
+            PipelineAnalysisPanel.currentPanel._panel.reveal(column);
+            PipelineAnalysisPanel.currentPanel._update(pipeline, result);
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            'pipelineAnalysis',
+            `Analysis: ${pipeline.appName}`,
+            column || vscode.ViewColumn.One,
+            {
+                enableScripts: true
+            }
+        );
+
+        PipelineAnalysisPanel.currentPanel = new PipelineAnalysisPanel(panel);
+        PipelineAnalysisPanel.currentPanel._update(pipeline, result);
+    }
+
+    private constructor(panel: vscode.WebviewPanel) {
+        this._panel = panel;
+
+        this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+        this._panel.webview.onDidReceiveMessage(message => {
+            if (message.command === 'openTimeline') {
+                vscode.commands.executeCommand('thinkube-cicd.showPipeline', message.pipelineId);
+            }
+        }, null, this._disposables);
+    }
+
+    public dispose() {
+        PipelineAnalysisPanel.currentPanel = undefined;
+        this._panel.dispose();
+        while (this._disposables.length) {
+            const x = this._disposables.pop();
+            if (x) {
+                x.dispose();
+            }
+        }
+    }
+
+    private _update(pipeline: Pipeline, result: AnalysisResult) {
+        this._panel.title = `Analysis: ${pipeline.appName}`;
+        this._panel.webview.html = this._getHtmlForWebview(pipeline, result);
+    }
+
+    private _getHtmlForWebview(pipeline: Pipeline, result: AnalysisResult) {
+        const { analysis, source, historySize } = result;
+        const score = analysis.performanceScore;
+        const scoreClass = score >= 80 ? 'good' : score >= 50 ? 'warn' : 'bad';
+        const sourceText = source === 'server'
+            ? 'Analysis provided by the Control Hub'
+            : `Computed locally from ${historySize} recent successful run${historySize === 1 ? '' : 's'}`;
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Pipeline Analysis</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            color: var(--vscode-foreground);
+            background-color: var(--vscode-editor-background);
+            padding: 20px;
+            margin: 0;
+        }
+        .header {
+            display: flex;
+            align-items: center;
+            gap: 24px;
+            margin-bottom: 30px;
+        }
+        .header h1 {
+            margin: 0 0 6px 0;
+        }
+        .metadata {
+            color: var(--vscode-descriptionForeground);
+            font-size: 13px;
+        }
+        .score {
+            width: 80px;
+            height: 80px;
+            border-radius: 50%;
+            display: flex;
+            align-items: center;
+            justify-content: center;
+            font-size: 26px;
+            font-weight: bold;
+            color: white;
+            flex-shrink: 0;
+        }
+        .score.good {
+            background-color: #58D68D;
+        }
+        .score.warn {
+            background-color: #F39C12;
+        }
+        .score.bad {
+            background-color: #ff4444;
+        }
+        .summary {
+            padding: 12px 16px;
+            background-color: var(--vscode-editor-lineHighlightBackground);
+            border-radius: 4px;
+            margin-bottom: 30px;
+        }
+        .item {
+            padding: 10px;
+            margin-bottom: 8px;
+            background-color: var(--vscode-editor-lineHighlightBackground);
+            border-left: 4px solid transparent;
+            border-radius: 4px;
+        }
+        .item.high {
+            border-left-color: #ff4444;
+        }
+        .item.medium {
+            border-left-color: #F39C12;
+        }
+        .item.low {
+            border-left-color: #5DADE2;
+        }
+        .item-header {
+            display: flex;
+            justify-content: space-between;
+        }
+        .impact {
+            font-size: 11px;
+            text-transform: uppercase;
+            color: var(--vscode-descriptionForeground);
+        }
+        .empty {
+            color: var(--vscode-descriptionForeground);
+        }
+        a {
+            color: var(--vscode-textLink-foreground);
+            cursor: pointer;
+        }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <div class="score ${scoreClass}" title="Performance score">${Math.round(score)}</div>
+        <div>
+            <h1>${escapeHtml(pipeline.appName)}</h1>
+            <div class="metadata">
+                <div>Status: ${pipeline.status} | Started: ${new Date(pipeline.startTime * 1000).toLocaleString()}</div>
+                <div>${sourceText} | <a onclick="openTimeline()">Open timeline</a></div>
+            </div>
+        </div>
+    </div>
+
+    <div class="summary">${escapeHtml(analysis.summary)}</div>
+
+    <h2>Failures</h2>
+    ${this._generateItems(analysis.failures, 'No failures')}
+
+    <h2>Bottlenecks</h2>
+    ${this._generateItems(analysis.bottlenecks, 'No bottlenecks found')}
+
+    <h2>Suggestions</h2>
+    ${analysis.suggestions.length > 0
+        ? `<ul>${analysis.suggestions.map(s => `<li>${escapeHtml(s)}</li>`).join('')}</ul>`
+        : '<div class="empty">No suggestions</div>'}
+
+    <script>
+        const vscode = acquireVsCodeApi();
+
+        function openTimeline() {
+            vscode.postMessage({ command: 'openTimeline', pipelineId: ${JSON.stringify(pipeline.id)} });
+        }
+    </script>
+</body>
+</html>`;
+    }
+
+    private _generateItems(items: AnalysisItem[], emptyText: string) {
+        if (items.length === 0) {
+            return `<div class="empty">${emptyText}</div>`;
+        }
+
+        return items.map(item => `
+            <div class="item ${item.impact}">
+                <div class="item-header">
+                    <strong>${escapeHtml(item.stage)}</strong>
+                    <span class="impact">${item.impact} impact | ${Math.round(item.duration)}s</span>
+                </div>
+                <div>${escapeHtml(item.issue)}</div>
+            </div>
+        `).join('');
+    }
+}
@@ -0,0 +1,274 @@
+import * as vscode from 'vscode';
+import { Pipeline, getStageDuration } from '../models/Pipeline';
+import { DetailChange, PipelineComparison, StageComparison } from '../analysis/PipelineComparison';
+import { escapeHtml, formatDuration } from '../utils/format';
+
+// Stage duration changes below this many seconds aren't highlighted
+const SIGNIFICANT_DELTA = 5;
+
+export class PipelineComparisonPanel {
+    public static currentPanel: PipelineComparisonPanel | undefined;
+    private readonly _panel: vscode.WebviewPanel;
+    private _disposables: vscode.Disposable[] = [];
+
+    public static render(comparison: PipelineComparison) {
+        const column = vscode.window.activeTextEditor
+            ? vscode.window.activeTextEditor.viewColumn
+            : undefined;
+
+        if (PipelineComparisonPanel.currentPanel) {
+            PipelineComparisonPanel.currentPanel._panel.reveal(column);
+            PipelineComparisonPanel.currentPanel._update(comparison);
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            'pipelineComparison',
+            `Compare: ${comparison.base.appName}`,
+            column || vscode.ViewColumn.One,
+            {
+                enableScripts: true
+            }
+        );
+
+        PipelineComparisonPanel.currentPanel = new PipelineComparisonPanel(panel);
+        PipelineComparisonPanel.currentPanel._update(comparison);
+    }
+
+    private constructor(panel: vscode.WebviewPanel) {
+        this._panel = panel;
+
+        this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+        this._panel.webview.onDidReceiveMessage(message => {
+            if (message.command === 'openTimeline') {
+                vscode.commands.executeCommand('thinkube-cicd.showPipeline', message.pipelineId);
+            }
+        }, null, this._disposables);
+    }
+
+    public dispose() {
+        PipelineComparisonPanel.currentPanel = undefined;
+        this._panel.dispose();
+        while (this._disposables.length) {
+            const x = this._disposables.pop();
+            if (x) {
+                x.dispose();
+            }
+        }
+    }
+
+    private _update(comparison: PipelineComparison) {
+        this._panel.title = `Compare: ${comparison.base.appName}`;
+        this._panel.webview.html = this._getHtmlForWebview(comparison);
+    }
+
+    private _getHtmlForWebview(comparison: PipelineComparison) {
+        const { base, other } = comparison;
+        const changedStages = comparison.stages.filter(stage => stage.errorChanged || stage.detailChanges.length > 0);
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Pipeline Comparison</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            color: var(--vscode-foreground);
+            background-color: var(--vscode-editor-background);
+            padding: 20px;
+            margin: 0;
+        }
+        .runs {
+            display: flex;
+            gap: 20px;
+            margin-bottom: 30px;
+        }
+        .run {
+            flex: 1;
+            padding: 12px 16px;
+            background-color: var(--vscode-editor-lineHighlightBackground);
+            border-radius: 4px;
+        }
+        .run h2 {
+            margin: 0 0 6px 0;
+            font-size: 16px;
+        }
+        .metadata {
+            color: var(--vscode-descriptionForeground);
+            font-size: 13px;
+        }
+        table {
+            width: 100%;
+            border-collapse: collapse;
+            margin-bottom: 30px;
+        }
+        th, td {
+            text-align: left;
+            padding: 6px 10px;
+            border-bottom: 1px solid var(--vscode-widget-border);
+            vertical-align: top;
+        }
+        th {
+            color: var(--vscode-descriptionForeground);
+            font-weight: normal;
+        }
+        .slower {
+            color: var(--vscode-testing-iconFailed);
+        }
+        .faster {
+            color: var(--vscode-testing-iconPassed);
+        }
+        .changed {
+            font-weight: bold;
+        }
+        .missing {
+            color: var(--vscode-descriptionForeground);
+            font-style: italic;
+        }
+        .stage-diff {
+            padding: 10px;
+            margin-bottom: 10px;
+            background-color: var(--vscode-editor-lineHighlightBackground);
+            border-radius: 4px;
+        }
+        .errors {
+            display: flex;
+            gap: 20px;
+            margin-top: 8px;
+        }
+        .errors > div {
+            flex: 1;
+            color: var(--vscode-errorForeground);
+        }
+        .added {
+            color: var(--vscode-gitDecoration-addedResourceForeground);
+        }
+        .removed {
+            color: var(--vscode-gitDecoration-deletedResourceForeground);
+        }
+        code {
+            font-family: var(--vscode-editor-font-family);
+            font-size: 12px;
+        }
+        .empty {
+            color: var(--vscode-descriptionForeground);
+        }
+        a {
+            color: var(--vscode-textLink-foreground);
+            cursor: pointer;
+        }
+    </style>
+</head>
+<body>
+    <h1>${escapeHtml(base.appName)}${other.appName !== base.appName ? ` vs ${escapeHtml(other.appName)}` : ''}</h1>
+
+    <div class="runs">
+        ${this._generateRun('A', base)}
+        ${this._generateRun('B', other)}
+    </div>
+
+    <h2>Total</h2>
+    <div>${comparison.durationDelta !== undefined ? this._formatDelta(comparison.durationDelta) : '<span class="empty">A run has not finished</span>'}</div>
+
+    <h2>Trigger</h2>
+    ${comparison.triggerDifferences.length > 0 ? `
+    <table>
+        <tr><th>Field</th><th>A</th><th>B</th></tr>
+        ${comparison.triggerDifferences.map(diff => `
+        <tr>
+            <td>${diff.field}</td>
+            <td>${escapeHtml(diff.base || '-')}</td>
+            <td>${escapeHtml(diff.other || '-')}</td>
+        </tr>`).join('')}
+    </table>` : '<div class="empty">Same trigger, branch and commit</div>'}
+
+    <h2>Stages</h2>
+    <table>
+        <tr><th>Stage</th><th>A</th><th>B</th><th>Duration A</th><th>Duration B</th><th>Change</th></tr>
+        ${comparison.stages.map(stage => this._generateStageRow(stage)).join('')}
+    </table>
+
+    <h2>Errors and Details</h2>
+    ${changedStages.length > 0
+        ? changedStages.map(stage => this._generateStageDiff(stage)).join('')
+        : '<div class="empty">No differences in errors or stage details</div>'}
+
+    <script>
+        const vscode = acquireVsCodeApi();
+
+        function openTimeline(pipelineId) {
+            vscode.postMessage({ command: 'openTimeline', pipelineId });
+        }
+    </script>
+</body>
+</html>`;
+    }
+
+    private _generateRun(label: string, pipeline: Pipeline) {
+        const trigger = pipeline.trigger;
+        return `
+        <div class="run">
+            <h2>${label}: ${pipeline.status}</h2>
+            <div class="metadata">
+                <div>Started: ${new Date(pipeline.startTime * 1000).toLocaleString()}</div>
+                <div>Branch: ${escapeHtml(trigger.branch || '-')} | Commit: ${escapeHtml(trigger.commit ? trigger.commit.slice(0, 7) : '-')}</div>
+                <div>Trigger: ${escapeHtml(trigger.type)}${trigger.user ? ` by ${escapeHtml(trigger.user)}` : ''}</div>
+                <div><a onclick="openTimeline(${escapeHtml(JSON.stringify(pipeline.id))})">Open timeline</a></div>
+            </div>
+        </div>`;
+    }
+
+    private _generateStageRow(stage: StageComparison) {
+        const missing = '<span class="missing">not run</span>';
+        const duration = (value?: number) => value !== undefined ? formatDuration(value) : '-';
+        const stageDuration = (s: StageComparison['base']) =>
+            s ? duration(getStageDuration(s)) : '-';
+
+        return `
+        <tr>
+            <td>${escapeHtml(stage.stageName)}</td>
+            <td>${stage.base ? stage.base.status : missing}</td>
+            <td class="${stage.statusChanged ? 'changed' : ''}">${stage.other ? stage.other.status : missing}</td>
+            <td>${stageDuration(stage.base)}</td>
+            <td>${stageDuration(stage.other)}</td>
+            <td>${stage.durationDelta !== undefined ? this._formatDelta(stage.durationDelta) : ''}</td>
+        </tr>`;
+    }
+
+    private _generateStageDiff(stage: StageComparison) {
+        return `
+        <div class="stage-diff">
+            <strong>${escapeHtml(stage.stageName)}</strong>
+            ${stage.errorChanged ? `
+            <div class="errors">
+                <div>A: ${escapeHtml(stage.base?.errorMessage || 'no error')}</div>
+                <div>B: ${escapeHtml(stage.other?.errorMessage || 'no error')}</div>
+            </div>` : ''}
+            ${stage.detailChanges.length > 0 ? `
+            <table>
+                <tr><th>Detail</th><th>A</th><th>B</th></tr>
+                ${stage.detailChanges.map(change => this._generateDetailChange(change)).join('')}
+            </table>` : ''}
+        </div>`;
+    }
+
+    private _generateDetailChange(change: DetailChange) {
+        const value = (v: any) => `<code>${escapeHtml(JSON.stringify(v))}</code>`;
+        return `
+                <tr class="${change.kind === 'changed' ? '' : change.kind}">
+                    <td><code>${escapeHtml(change.path)}</code></td>
+                    <td>${change.kind === 'added' ? '-' : value(change.before)}</td>
+                    <td>${change.kind === 'removed' ? '-' : value(change.after)}</td>
+                </tr>`;
+    }
+
+    private _formatDelta(seconds: number) {
+        const text = `${seconds >= 0 ? '+' : '-'}${formatDuration(Math.abs(seconds))}`;
+        if (Math.abs(seconds) < SIGNIFICANT_DELTA) {
+            return text;
+        }
+        return `<span class="${seconds > 0 ? 'slower' : 'faster'}">${text}</span>`;
+    }
+}
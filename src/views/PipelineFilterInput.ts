@@ -0,0 +1,121 @@
+import * as vscode from 'vscode';
+import { PipelineFilter, PipelineStatus } from '../models/Pipeline';
+import { PipelineGrouping } from './PipelineTreeProvider';
+
+type FilterField = keyof PipelineFilter;
+
+interface FieldPickItem extends vscode.QuickPickItem {
+    field?: FilterField;
+    clear?: boolean;
+}
+
+const FIELD_LABELS: { [field in FilterField]: string } = {
+    appName: 'Application',
+    status: 'Status',
+    branch: 'Branch',
+    triggerUser: 'Triggered by',
+    commit: 'Commit'
+};
+
+const GROUPING_LABELS: { [grouping in PipelineGrouping]: string } = {
+    none: 'No grouping',
+    application: 'Application',
+    status: 'Status',
+    branch: 'Branch',
+    trigger: 'Trigger type'
+};
+
+/**
+ * Lets the user change one filter field (or clear them all).
+ * Returns the updated filter, or undefined if cancelled.
+ */
+export async function editPipelineFilter(
+    current: PipelineFilter,
+    listApplications: () => Promise<string[]>
+): Promise<PipelineFilter | undefined> {
+    const fields = Object.keys(FIELD_LABELS) as FilterField[];
+    const items: FieldPickItem[] = fields.map(field => ({
+        label: FIELD_LABELS[field],
+        description: current[field] || 'any',
+        field
+    }));
+    items.push({ label: '$(clear-all) Clear all filters', clear: true });
+
+    const selected = await vscode.window.showQuickPick(items, {
+        title: 'Filter Pipelines',
+        placeHolder: 'Select the filter to change'
+    });
+    if (!selected) {
+        return undefined;
+    }
+    if (selected.clear) {
+        return {};
+    }
+
+    const field = selected.field!;
+    const value = await pickFieldValue(field, current[field], listApplications);
+    if (value === undefined) {
+        return undefined;
+    }
+
+    return { ...current, [field]: value || undefined };
+}
+
+/** Returns '' to clear the field, undefined if cancelled. */
+async function pickFieldValue(
+    field: FilterField,
+    currentValue: string | undefined,
+    listApplications: () => Promise<string[]>
+): Promise<string | undefined> {
+    const anyLabel = '(any)';
+
+    if (field === 'appName' || field === 'status') {
+        let options: string[];
+        if (field === 'status') {
+            options = Object.values(PipelineStatus);
+        } else {
+            try {
+                options = await listApplications();
+            } catch (error: any) {
+                vscode.window.showErrorMessage(`Failed to load applications: ${error.message}`);
+                return undefined;
+            }
+        }
+
+        const picked = await vscode.window.showQuickPick(
+            [anyLabel, ...options].map(option => ({ label: option, picked: option === currentValue })),
+            { title: `Filter by ${FIELD_LABELS[field]}` }
+        );
+        if (!picked) {
+            return undefined;
+        }
+        return picked.label === anyLabel ? '' : picked.label;
+    }
+
+    const value = await vscode.window.showInputBox({
+        title: `Filter by ${FIELD_LABELS[field]}`,
+        prompt: 'Leave empty to show all',
+        value: currentValue || ''
+    });
+    return value?.trim();
+}
+
+export async function pickPipelineGrouping(current: PipelineGrouping): Promise<PipelineGrouping | undefined> {
+    const groupings = Object.keys(GROUPING_LABELS) as PipelineGrouping[];
+    const picked = await vscode.window.showQuickPick(
+        groupings.map(grouping => ({
+            label: GROUPING_LABELS[grouping],
+            description: grouping === current ? 'current' : undefined,
+            grouping
+        })),
+        { title: 'Group Pipelines By' }
+    );
+    return picked?.grouping;
+}
+
+export function describePipelineFilter(filter: PipelineFilter): string | undefined {
+    const parts = (Object.keys(FIELD_LABELS) as FilterField[])
+        .filter(field => filter[field])
+        .map(field => `${FIELD_LABELS[field].toLowerCase()}: ${filter[field]}`);
+    return parts.length > 0 ? parts.join(', ') : undefined;
+}
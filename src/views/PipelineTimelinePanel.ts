@@ -1,10 +1,25 @@
 import * as vscode from 'vscode';
-import { Pipeline, StageStatus } from '../models/Pipeline';
+import { Pipeline } from '../models/Pipeline';
+import { PipelineEvent, applyEventToPipeline } from '../models/PipelineEvent';
+import { buildMermaidGantt } from '../utils/gantt';
 
+/**
+ * One panel per pipeline. The webview renders the pipeline it is sent and
+ * re-renders in place on every update, so realtime events show up without
+ * reloading the page. Panels are restored after a window reload by
+ * PipelineTimelineSerializer.
+ */
 export class PipelineTimelinePanel {
-    public static currentPanel: PipelineTimelinePanel | undefined;
+    public static readonly viewType = 'pipelineTimeline';
+    private static panels = new Map<string, PipelineTimelinePanel>();
+
+    private static _onDidOpen = new vscode.EventEmitter<Pipeline>();
+    /** Fires when a panel is created or restored, so its pipeline can be tracked. */
+    public static readonly onDidOpen = PipelineTimelinePanel._onDidOpen.event;
+
     private readonly _panel: vscode.WebviewPanel;
     private readonly _extensionUri: vscode.Uri;
+    private _pipeline: Pipeline;
     private _disposables: vscode.Disposable[] = [];
 
     public static render(extensionUri: vscode.Uri, pipeline: Pipeline) {
@@ -12,35 +27,72 @@ export class PipelineTimelinePanel {
             ? vscode.window.activeTextEditor.viewColumn
             : undefined;
 
-        if (PipelineTimelinePanel.currentPanel) {
-            PipelineTimelinePanel.currentPanel._panel.reveal(column);
-            PipelineTimelinePanel.currentPanel._update(pipeline);
+        const existing = PipelineTimelinePanel.panels.get(pipeline.id);
+        if (existing) {
+            existing._panel.reveal(column);
+            existing._update(pipeline);
             return;
         }
 
         const panel = vscode.window.createWebviewPanel(
-            'pipelineTimeline',
+            PipelineTimelinePanel.viewType,
             `Pipeline: ${pipeline.appName}`,
             column || vscode.ViewColumn.One,
-            {
-                enableScripts: true,
-                localResourceRoots: [vscode.Uri.joinPath(extensionUri, 'media')]
-            }
+            getWebviewOptions(extensionUri)
         );
 
-        PipelineTimelinePanel.currentPanel = new PipelineTimelinePanel(panel, extensionUri);
-        PipelineTimelinePanel.currentPanel._update(pipeline);
+        new PipelineTimelinePanel(panel, extensionUri, pipeline);
+    }
+
+    /** Takes over a panel VS Code restored after a window reload. */
+    public static revive(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, pipeline: Pipeline) {
+        panel.webview.options = getWebviewOptions(extensionUri);
+        new PipelineTimelinePanel(panel, extensionUri, pipeline);
+    }
+
+    /** Applies a realtime event to the panel showing its pipeline, if there is one. */
+    public static applyEvent(event: PipelineEvent) {
+        const panel = PipelineTimelinePanel.panels.get(event.pipelineId);
+        if (panel) {
+            const pipeline = applyEventToPipeline(panel._pipeline, event);
+            // The Control Hub's chart only shows the stages as they were when it was loaded
+            panel._update(pipeline.mermaidGantt && pipeline !== panel._pipeline
+                ? { ...pipeline, mermaidGantt: buildMermaidGantt(pipeline) }
+                : pipeline);
+        }
     }
 
-    private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri) {
+    private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, pipeline: Pipeline) {
         this._panel = panel;
         this._extensionUri = extensionUri;
+        this._pipeline = pipeline;
+        PipelineTimelinePanel.panels.set(pipeline.id, this);
+
+        this._panel.title = `Pipeline: ${pipeline.appName}`;
+        this._panel.webview.html = this._getHtmlForWebview();
 
         this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+        this._panel.webview.onDidReceiveMessage(message => {
+            if (message.command === 'ready') {
+                // Sent on every (re)load of the page, e.g. after the panel was hidden
+                this._postPipeline();
+            } else if (message.command === 'openLogs') {
+                vscode.commands.executeCommand('thinkube-cicd.openStageLogs', message.pipelineId, message.stageName);
+            } else if (message.command === 'copyMermaid') {
+                this._copyMermaid();
+            } else if (message.command === 'exportSvg') {
+                this._exportSvg(message.svg);
+            }
+        }, null, this._disposables);
+
+        PipelineTimelinePanel._onDidOpen.fire(pipeline);
     }
 
     public dispose() {
-        PipelineTimelinePanel.currentPanel = undefined;
+        if (PipelineTimelinePanel.panels.get(this._pipeline.id) === this) {
+            PipelineTimelinePanel.panels.delete(this._pipeline.id);
+        }
         this._panel.dispose();
         while (this._disposables.length) {
             const x = this._disposables.pop();
@@ -51,17 +103,56 @@ export class PipelineTimelinePanel {
     }
 
     private _update(pipeline: Pipeline) {
+        this._pipeline = pipeline;
         this._panel.title = `Pipeline: ${pipeline.appName}`;
-        this._panel.webview.html = this._getHtmlForWebview(pipeline);
+        this._postPipeline();
     }
 
-    private _getHtmlForWebview(pipeline: Pipeline) {
-        const styleUri = this._panel.webview.asWebviewUri(
-            vscode.Uri.joinPath(this._extensionUri, 'media', 'timeline.css')
-        );
+    private _postPipeline() {
+        this._panel.webview.postMessage({ command: 'update', pipeline: this._pipeline });
+    }
 
-        // Generate custom timeline
-        const customTimeline = this._generateCustomTimeline(pipeline);
+    private async _copyMermaid() {
+        const source = this._pipeline.mermaidGantt;
+        if (!source) {
+            vscode.window.showWarningMessage('This pipeline has no Mermaid chart.');
+            return;
+        }
+        await vscode.env.clipboard.writeText(source);
+        vscode.window.showInformationMessage('Mermaid chart copied to the clipboard.');
+    }
+
+    private async _exportSvg(svg: string | undefined) {
+        if (!svg) {
+            vscode.window.showWarningMessage('The Mermaid chart could not be rendered.');
+            return;
+        }
+
+        const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+        const fileName = `${this._pipeline.appName}-${this._pipeline.id.slice(0, 8)}.svg`;
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: folder ? vscode.Uri.joinPath(folder, fileName) : undefined,
+            filters: { 'SVG Image': ['svg'] },
+            saveLabel: 'Export'
+        });
+        if (!target) {
+            return;
+        }
+
+        try {
+            await vscode.workspace.fs.writeFile(target, Buffer.from(svg, 'utf8'));
+            vscode.window.showInformationMessage(`Timeline exported to ${vscode.workspace.asRelativePath(target)}`);
+        } catch (error) {
+            console.error('Failed to export timeline:', error);
+            vscode.window.showErrorMessage(`Failed to export timeline: ${error}`);
+        }
+    }
+
+    private _getHtmlForWebview() {
+        // Bundled with the extension; webviews can't load it from a CDN offline
+        const mermaidUri = this._panel.webview.asWebviewUri(
+            vscode.Uri.joinPath(this._extensionUri, 'node_modules', 'mermaid', 'dist', 'mermaid.min.js')
+        );
 
         return `<!DOCTYPE html>
 <html lang="en">
@@ -108,8 +199,36 @@ export class PipelineTimelinePanel {
             color: var(--vscode-descriptionForeground);
             font-size: 14px;
         }
+        .timeline-toolbar {
+            display: flex;
+            gap: 6px;
+            margin-top: 40px;
+        }
+        .timeline-toolbar .spacer {
+            flex: 1;
+        }
+        .timeline-toolbar button {
+            padding: 4px 10px;
+            border: none;
+            border-radius: 2px;
+            background-color: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+            font-size: 12px;
+            cursor: pointer;
+        }
+        .timeline-toolbar button:hover:not(:disabled) {
+            background-color: var(--vscode-button-secondaryHoverBackground);
+        }
+        .timeline-toolbar button.active {
+            background-color: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+        }
+        .timeline-toolbar button:disabled {
+            opacity: 0.5;
+            cursor: default;
+        }
         .timeline-container {
-            margin: 40px 0;
+            margin: 10px 0 40px 0;
             padding: 20px;
             background-color: var(--vscode-editor-background);
             border: 1px solid var(--vscode-widget-border);
@@ -209,6 +328,19 @@ export class PipelineTimelinePanel {
         .event-item:hover {
             background-color: var(--vscode-list-hoverBackground);
         }
+        .open-logs {
+            margin-left: 10px;
+            padding: 2px 8px;
+            border: none;
+            border-radius: 2px;
+            background-color: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+            font-size: 12px;
+            cursor: pointer;
+        }
+        .open-logs:hover {
+            background-color: var(--vscode-button-secondaryHoverBackground);
+        }
         .event-time {
             color: var(--vscode-descriptionForeground);
             font-size: 12px;
@@ -231,48 +363,313 @@ export class PipelineTimelinePanel {
     </style>
 </head>
 <body>
-    <div class="header">
-        <h1>
-            ${pipeline.appName}
-            <span class="status ${pipeline.status}">${pipeline.status.toUpperCase()}</span>
-        </h1>
-        <div class="metadata">
-            <div>Started: ${new Date(pipeline.startTime * 1000).toLocaleString()}</div>
-            ${pipeline.endTime ? `<div>Ended: ${new Date(pipeline.endTime * 1000).toLocaleString()}</div>` : ''}
-            ${pipeline.duration ? `<div>Duration: ${Math.round(pipeline.duration)}s</div>` : ''}
-            <div>Trigger: ${pipeline.trigger.type}${pipeline.trigger.user ? ` by ${pipeline.trigger.user}` : ''}</div>
-        </div>
+    <div class="header" id="header"></div>
+
+    <div class="timeline-toolbar">
+        <button class="view-toggle" data-view="bars">Bars</button>
+        <button class="view-toggle" data-view="mermaid">Mermaid Gantt</button>
+        <span class="spacer"></span>
+        <button id="copy-mermaid">Copy Mermaid</button>
+        <button id="export-svg">Export SVG</button>
     </div>
 
     <div class="timeline-container">
-        ${customTimeline}
+        <div id="timeline"></div>
+        <div id="mermaid-chart" hidden></div>
     </div>
 
     <div class="event-details">
         <h2>Stage Details</h2>
-        ${pipeline.stages.sort((a, b) => a.startedAt - b.startedAt).map((stage, index) => `
-            <div class="event-item" id="event-${stage.id}" onclick="toggleDetails('${stage.id}')">
-                <div style="display: flex; justify-content: space-between;">
-                    <strong>${stage.stageName}</strong>
-                    <span class="event-time">${new Date(stage.startedAt * 1000).toLocaleTimeString()}</span>
-                </div>
-                <div>Component: ${stage.component} | Status: ${stage.status} | Duration: ${stage.duration !== null && stage.duration !== undefined && stage.duration >= 0 ? Math.round(stage.duration) + 's' : 'Running'}</div>
-                ${stage.errorMessage ? `<div style="color: var(--vscode-errorForeground);">Error: ${stage.errorMessage}</div>` : ''}
-                <div class="event-details-panel" id="details-${stage.id}">
-                    <pre>${JSON.stringify(stage.details || {}, null, 2)}</pre>
-                </div>
-            </div>
-        `).join('')}
+        <div id="stages"></div>
     </div>
 
     <script>
-        function toggleDetails(eventId) {
-            const panel = document.getElementById('details-' + eventId);
+        const vscode = acquireVsCodeApi();
+        const STATUS_CLASSES = { SUCCEEDED: 'success', FAILED: 'failed', RUNNING: 'running' };
+        const MERMAID_SCRIPT = '${mermaidUri}';
+        let pipeline = null;
+        let tickTimer = null;
+        // 'bars' or 'mermaid'
+        let view = (vscode.getState() || {}).view || 'bars';
+        let mermaidLoading = null;
+        let renderedSource = null;
+        let renderedSvg = null;
+        let pendingRender = null;
+        let renderCount = 0;
+        // Stage details the user expanded, kept across re-renders
+        const openDetails = new Set();
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+            if (message.command === 'update') {
+                pipeline = message.pipeline;
+                saveState();
+                render();
+            }
+        });
+
+        document.addEventListener('click', event => {
+            const toggle = event.target.closest('.view-toggle');
+            if (toggle) {
+                view = toggle.dataset.view;
+                saveState();
+                applyView();
+                return;
+            }
+            if (event.target.closest('#copy-mermaid')) {
+                vscode.postMessage({ command: 'copyMermaid' });
+                return;
+            }
+            if (event.target.closest('#export-svg')) {
+                exportSvg();
+                return;
+            }
+            const logsButton = event.target.closest('.open-logs');
+            if (logsButton) {
+                vscode.postMessage({ command: 'openLogs', pipelineId: pipeline.id, stageName: logsButton.dataset.stage });
+                return;
+            }
+            const bar = event.target.closest('.timeline-bar');
+            if (bar) {
+                scrollToEvent(bar.dataset.stageId);
+                return;
+            }
+            const item = event.target.closest('.event-item');
+            if (item) {
+                toggleDetails(item.dataset.stageId);
+            }
+        });
+
+        vscode.postMessage({ command: 'ready' });
+
+        function escapeHtml(text) {
+            return String(text)
+                .replace(/&/g, '&amp;')
+                .replace(/</g, '&lt;')
+                .replace(/>/g, '&gt;')
+                .replace(/"/g, '&quot;');
+        }
+
+        function saveState() {
+            // The pipeline id lets the serializer reopen this pipeline after a window reload
+            vscode.setState({ pipelineId: pipeline.id, view });
+        }
+
+        function now() {
+            return Math.floor(Date.now() / 1000);
+        }
+
+        function sortedStages() {
+            return [...(pipeline.stages || [])].sort((a, b) => a.startedAt - b.startedAt);
+        }
+
+        function render() {
+            renderHeader();
+            renderTimeline();
+            renderStages();
+            applyView();
+
+            // Running bars grow until the next event arrives
+            const running = pipeline.status === 'RUNNING' || (pipeline.stages || []).some(s => s.status === 'RUNNING');
+            if (running && !tickTimer) {
+                tickTimer = setInterval(renderTimeline, 1000);
+            } else if (!running && tickTimer) {
+                clearInterval(tickTimer);
+                tickTimer = null;
+            }
+        }
+
+        function renderHeader() {
+            const trigger = pipeline.trigger || {};
+            document.getElementById('header').innerHTML = \`
+                <h1>
+                    \${escapeHtml(pipeline.appName)}
+                    <span class="status \${STATUS_CLASSES[pipeline.status] || ''}">\${escapeHtml(pipeline.status)}</span>
+                </h1>
+                <div class="metadata">
+                    <div>Started: \${new Date(pipeline.startTime * 1000).toLocaleString()}</div>
+                    \${pipeline.endTime ? \`<div>Ended: \${new Date(pipeline.endTime * 1000).toLocaleString()}</div>\` : ''}
+                    \${pipeline.duration ? \`<div>Duration: \${Math.round(pipeline.duration)}s</div>\` : ''}
+                    <div>Trigger: \${escapeHtml(trigger.type)}\${trigger.user ? \` by \${escapeHtml(trigger.user)}\` : ''}</div>
+                </div>\`;
+        }
+
+        function renderTimeline() {
+            const container = document.getElementById('timeline');
+            const stages = sortedStages();
+            if (stages.length === 0) {
+                container.innerHTML = '<div style="text-align: center; color: var(--vscode-descriptionForeground);">No stages to display</div>';
+                return;
+            }
+
+            // Calculate total duration and find min/max times
+            const minTime = stages[0].startedAt;
+            const maxTime = Math.max(...stages.map(s => s.completedAt || now()));
+            const totalDuration = Math.max(maxTime - minTime, 1);
+
+            let timeline = '<div class="timeline-chart">';
+
+            stages.forEach(stage => {
+                const startOffset = ((stage.startedAt - minTime) / totalDuration) * 100;
+                const endTime = stage.completedAt || now();
+                const duration = endTime - stage.startedAt;
+                const width = (duration / totalDuration) * 100;
+
+                // Determine task type and status
+                const stageLower = stage.stageName.toLowerCase();
+                let taskType = 'other';
+                if (stageLower.includes('deploy') || stageLower.includes('argocd') || stageLower.includes('sync')) {
+                    taskType = 'deployment';
+                } else if (stageLower.includes('build') || stageLower.includes('test')) {
+                    taskType = 'workflow';
+                }
+                // workflow_triggered should be orange (other), not blue
+
+                const statusClass = stage.status === 'FAILED' ? 'failed' : taskType;
+
+                // For very short tasks, use actual width but ensure visibility
+                const displayWidth = Math.max(width, 0.5); // At least 0.5% to be visible
+
+                // Only show text in bars that are wide enough (> 3% of total width)
+                const showText = width > 3;
+                const durationText = duration < 1 ? '<1s' : Math.round(duration) + 's';
+
+                timeline += \`
+                    <div class="timeline-row">
+                        <div class="timeline-label">\${escapeHtml(stage.stageName.replace(/_/g, ' '))}</div>
+                        <div class="timeline-bar-container">
+                            <div class="timeline-bar \${statusClass}"
+                                 style="left: \${startOffset}%; width: \${displayWidth}%;"
+                                 data-stage-id="\${escapeHtml(stage.id)}"
+                                 title="\${escapeHtml(stage.stageName)}: \${durationText}">
+                                \${showText ? escapeHtml(durationText) : ''}
+                            </div>
+                        </div>
+                    </div>
+                \`;
+            });
+
+            // Add time axis
+            timeline += \`
+                <div class="timeline-time-axis">
+                    <div class="timeline-time-marker">0s</div>
+                    <div class="timeline-time-marker" style="text-align: center">\${Math.round(totalDuration / 2)}s</div>
+                    <div class="timeline-time-marker" style="text-align: right">\${Math.round(totalDuration)}s</div>
+                </div>
+            \`;
+
+            timeline += '</div>';
+            container.innerHTML = timeline;
+        }
+
+        function applyView() {
+            document.getElementById('timeline').hidden = view !== 'bars';
+            document.getElementById('mermaid-chart').hidden = view !== 'mermaid';
+            document.querySelectorAll('.view-toggle').forEach(button => {
+                button.classList.toggle('active', button.dataset.view === view);
+            });
+            const hasChart = !!(pipeline && pipeline.mermaidGantt);
+            document.getElementById('copy-mermaid').disabled = !hasChart;
+            document.getElementById('export-svg').disabled = !hasChart;
+
+            if (view === 'mermaid') {
+                renderMermaid();
+            }
+        }
+
+        function loadMermaid() {
+            // Only pulled in once the chart is first needed
+            if (!mermaidLoading) {
+                mermaidLoading = new Promise((resolve, reject) => {
+                    const script = document.createElement('script');
+                    script.src = MERMAID_SCRIPT;
+                    script.onload = () => {
+                        mermaid.initialize({
+                            startOnLoad: false,
+                            securityLevel: 'strict',
+                            theme: document.body.classList.contains('vscode-light') ? 'default' : 'dark'
+                        });
+                        resolve(mermaid);
+                    };
+                    script.onerror = () => reject(new Error('Could not load the Mermaid renderer'));
+                    document.head.appendChild(script);
+                });
+            }
+            return mermaidLoading;
+        }
+
+        function renderMermaid() {
+            const container = document.getElementById('mermaid-chart');
+            const source = pipeline.mermaidGantt;
+            if (!source) {
+                renderedSource = null;
+                renderedSvg = null;
+                container.innerHTML = '<div style="text-align: center; color: var(--vscode-descriptionForeground);">The Control Hub did not provide a Mermaid chart for this pipeline</div>';
+                return Promise.resolve();
+            }
+            if (source === renderedSource) {
+                return pendingRender;
+            }
+
+            renderedSource = source;
+            renderedSvg = null;
+            pendingRender = loadMermaid()
+                .then(mermaidApi => mermaidApi.render('mermaid-gantt-' + (++renderCount), source))
+                .then(({ svg }) => {
+                    // A newer chart may have arrived while this one rendered
+                    if (renderedSource === source) {
+                        renderedSvg = svg;
+                        container.innerHTML = svg;
+                    }
+                })
+                .catch(error => {
+                    if (renderedSource === source) {
+                        renderedSource = null;
+                        container.innerHTML = \`<div style="color: var(--vscode-errorForeground);">Failed to render the Mermaid chart: \${escapeHtml(error.message || error)}</div>\`;
+                    }
+                });
+            return pendingRender;
+        }
+
+        async function exportSvg() {
+            await renderMermaid();
+            vscode.postMessage({ command: 'exportSvg', svg: renderedSvg });
+        }
+
+        function renderStages() {
+            document.getElementById('stages').innerHTML = sortedStages().map(stage => \`
+                <div class="event-item" id="event-\${escapeHtml(stage.id)}" data-stage-id="\${escapeHtml(stage.id)}">
+                    <div style="display: flex; justify-content: space-between;">
+                        <strong>\${escapeHtml(stage.stageName)}</strong>
+                        <span>
+                            <span class="event-time">\${new Date(stage.startedAt * 1000).toLocaleTimeString()}</span>
+                            <button class="open-logs" data-stage="\${escapeHtml(stage.stageName)}">Open Logs</button>
+                        </span>
+                    </div>
+                    <div>Component: \${escapeHtml(stage.component)} | Status: \${escapeHtml(stage.status)} | Duration: \${stage.duration !== null && stage.duration !== undefined && stage.duration >= 0 ? Math.round(stage.duration) + 's' : 'Running'}</div>
+                    \${stage.errorMessage ? \`<div style="color: var(--vscode-errorForeground);">Error: \${escapeHtml(stage.errorMessage)}</div>\` : ''}
+                    <div class="event-details-panel \${openDetails.has(stage.id) ? 'show' : ''}" id="details-\${escapeHtml(stage.id)}">
+                        <pre>\${escapeHtml(JSON.stringify(stage.details || {}, null, 2))}</pre>
+                    </div>
+                </div>
+            \`).join('');
+        }
+
+        function toggleDetails(stageId) {
+            const panel = document.getElementById('details-' + stageId);
+            if (!panel) {
+                return;
+            }
             panel.classList.toggle('show');
+            if (panel.classList.contains('show')) {
+                openDetails.add(stageId);
+            } else {
+                openDetails.delete(stageId);
+            }
         }
 
-        function scrollToEvent(eventId) {
-            const element = document.getElementById('event-' + eventId);
+        function scrollToEvent(stageId) {
+            const element = document.getElementById('event-' + stageId);
             if (element) {
                 element.scrollIntoView({ behavior: 'smooth', block: 'center' });
                 element.style.backgroundColor = 'var(--vscode-list-activeSelectionBackground)';
@@ -285,74 +682,43 @@ export class PipelineTimelinePanel {
 </body>
 </html>`;
     }
+}
+
+function getWebviewOptions(extensionUri: vscode.Uri): vscode.WebviewPanelOptions & vscode.WebviewOptions {
+    return {
+        enableScripts: true,
+        localResourceRoots: [
+            vscode.Uri.joinPath(extensionUri, 'media'),
+            vscode.Uri.joinPath(extensionUri, 'node_modules', 'mermaid', 'dist')
+        ]
+    };
+}
 
-    private _generateCustomTimeline(pipeline: Pipeline) {
-        if (pipeline.stages.length === 0) {
-            return '<div style="text-align: center; color: var(--vscode-descriptionForeground);">No stages to display</div>';
-        }
-
-        // Sort stages by start time
-        const sortedStages = [...pipeline.stages].sort((a, b) => a.startedAt - b.startedAt);
-        
-        // Calculate total duration and find min/max times
-        const minTime = sortedStages[0].startedAt;
-        const maxTime = Math.max(...sortedStages.map(s => s.completedAt || Math.floor(Date.now() / 1000)));
-        const totalDuration = maxTime - minTime;
-        
-        // Generate timeline bars
-        let timeline = '<div class="timeline-chart">';
-        
-        sortedStages.forEach((stage) => {
-            const startOffset = ((stage.startedAt - minTime) / totalDuration) * 100;
-            const endTime = stage.completedAt || Math.floor(Date.now() / 1000);
-            const duration = endTime - stage.startedAt;
-            const width = (duration / totalDuration) * 100;
-            
-            // Determine task type and status
-            const stageLower = stage.stageName.toLowerCase();
-            let taskType = 'other';
-            if (stageLower.includes('deploy') || stageLower.includes('argocd') || stageLower.includes('sync')) {
-                taskType = 'deployment';
-            } else if (stageLower.includes('build') || stageLower.includes('test')) {
-                taskType = 'workflow';
+/**
+ * Restores timeline panels after a window reload from the pipeline id the
+ * webview saved in its state.
+ */
+export class PipelineTimelineSerializer implements vscode.WebviewPanelSerializer {
+    constructor(
+        private readonly extensionUri: vscode.Uri,
+        private readonly loadPipeline: (pipelineId: string) => Promise<Pipeline | null | undefined>
+    ) {}
+
+    async deserializeWebviewPanel(panel: vscode.WebviewPanel, state: any): Promise<void> {
+        const pipelineId: string | undefined = state && state.pipelineId;
+        let pipeline: Pipeline | null | undefined;
+        if (pipelineId) {
+            try {
+                pipeline = await this.loadPipeline(pipelineId);
+            } catch (error) {
+                console.error(`Failed to restore timeline for pipeline ${pipelineId}:`, error);
             }
-            // workflow_triggered should be orange (other), not blue
-            
-            const statusClass = stage.status === StageStatus.FAILED ? 'failed' : taskType;
-            
-            // For very short tasks, use actual width but ensure visibility
-            const displayWidth = Math.max(width, 0.5); // At least 0.5% to be visible
-            
-            // Only show text in bars that are wide enough (> 3% of total width)
-            const showText = width > 3;
-            const durationText = duration < 1 ? '<1s' : Math.round(duration) + 's';
-            
-            timeline += `
-                <div class="timeline-row">
-                    <div class="timeline-label">${stage.stageName.replace(/_/g, ' ')}</div>
-                    <div class="timeline-bar-container">
-                        <div class="timeline-bar ${statusClass}" 
-                             style="left: ${startOffset}%; width: ${displayWidth}%;"
-                             onclick="scrollToEvent('${stage.id}')"
-                             title="${stage.stageName}: ${durationText}">
-                            ${showText ? durationText : ''}
-                        </div>
-                    </div>
-                </div>
-            `;
-        });
-        
-        // Add time axis
-        timeline += `
-            <div class="timeline-time-axis">
-                <div class="timeline-time-marker">0s</div>
-                <div class="timeline-time-marker" style="text-align: center">${Math.round(totalDuration / 2)}s</div>
-                <div class="timeline-time-marker" style="text-align: right">${Math.round(totalDuration)}s</div>
-            </div>
-        `;
-        
-        timeline += '</div>';
-        
-        return timeline;
+        }
+
+        if (!pipeline) {
+            panel.dispose();
+            return;
+        }
+        PipelineTimelinePanel.revive(panel, this.extensionUri, pipeline);
     }
-}
\ No newline at end of file
+}
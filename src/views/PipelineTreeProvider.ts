@@ -1,23 +1,72 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { EventEmitter } from 'events';
-import { Pipeline, PipelineStatus, PipelineStage, StageStatus } from '../models/Pipeline';
+import { Pipeline, PipelineFilter, PipelinePage, PipelineStatus, StageStatus, getPipelineDuration, getStageDuration } from '../models/Pipeline';
 import { ControlHubAPI } from '../api/ControlHubAPI';
+import { ControlHubError, describeControlHubError } from '../api/ControlHubError';
+import { OfflineStore } from '../cache/OfflineStore';
+import { PipelineEvent, applyEventToPipeline } from '../models/PipelineEvent';
+import { isSameCommit } from '../git/git';
+import { HeadMatch, WorkspaceHead, matchWorkspaceHead } from '../git/CommitPipelineLinker';
+import { formatDuration } from '../utils/format';
 
-type TreeNode = PipelineItem | StageItem | LoadingItem;
+type TreeNode = EnvironmentItem | GroupItem | PipelineItem | StageItem | LoadingItem | LoadMoreItem | StaleItem;
 
-export class PipelineTreeProvider extends EventEmitter implements vscode.TreeDataProvider<TreeNode> {
+export type PipelineGrouping = 'none' | 'application' | 'status' | 'branch' | 'trigger';
+
+const FILTER_STATE_KEY = 'thinkube-cicd.pipelineFilter';
+const GROUPING_STATE_KEY = 'thinkube-cicd.pipelineGrouping';
+const PAGE_SIZE = 20;
+// How often to retry while the Control Hub is unreachable
+const RECONNECT_RETRY_INTERVAL = 30000;
+
+/** The pipelines loaded from one Control Hub connection profile. */
+interface PipelineSource {
+    api: ControlHubAPI;
+    pipelines: Pipeline[];
+    total: number;
+    pageCount: number;
+    loadingMore: boolean;
+    stale: boolean;            // Pipelines came from the offline cache or an earlier load
+    error?: ControlHubError;   // Why the last load from the Control Hub failed
+    loadedAt?: number;         // Epoch milliseconds the pipelines were last loaded from the server
+}
+
+function createSource(api: ControlHubAPI, pageCount: number = 1): PipelineSource {
+    return { api, pipelines: [], total: 0, pageCount, loadingMore: false, stale: false };
+}
+
+export class PipelineTreeProvider extends EventEmitter implements vscode.TreeDataProvider<TreeNode>, vscode.Disposable {
     private _onDidChangeTreeData: vscode.EventEmitter<TreeNode | undefined | null | void> = new vscode.EventEmitter<TreeNode | undefined | null | void>();
     readonly onDidChangeTreeData: vscode.Event<TreeNode | undefined | null | void> = this._onDidChangeTreeData.event;
 
-    private pipelines: Pipeline[] = [];
+    private sources: PipelineSource[];
     private visible = false;
     private expandedPipelines = new Set<string>();
     private loading = true;
     private pipelineCache = new Map<string, Pipeline>();
+    // Pipelines whose cached details are kept current by realtime events
+    private livePipelines = new Set<string>();
+    // Unknown pipelines an event already triggered a reload for
+    private reloadedFor = new Set<string>();
+    // The last item rendered for each pipeline, so events can repaint just that node
+    private pipelineItems = new Map<string, PipelineItem>();
+    private highlightedPipelineId: string | undefined;
+    private head: WorkspaceHead | undefined;
+    private filter: PipelineFilter;
+    private grouping: PipelineGrouping;
+    private retryTimer: NodeJS.Timeout | null = null;
+    private loadController: AbortController | null = null;
 
-    constructor(private controlHubAPI: ControlHubAPI) {
+    constructor(
+        controlHubAPI: ControlHubAPI,
+        private workspaceState: vscode.Memento,
+        private offlineStore: OfflineStore
+    ) {
         super();
+        this.sources = [createSource(controlHubAPI)];
+        this.filter = workspaceState.get<PipelineFilter>(FILTER_STATE_KEY, {});
+        this.grouping = workspaceState.get<PipelineGrouping>(GROUPING_STATE_KEY, 'none');
         this.refresh();
         
         // Track which tree items are expanded
@@ -30,10 +79,192 @@ export class PipelineTreeProvider extends EventEmitter implements vscode.TreeDat
     refresh(): void {
         // Clear cache to ensure fresh data
         this.pipelineCache.clear();
+        this.livePipelines.clear();
         this.loadPipelines();
         this._onDidChangeTreeData.fire();
     }
 
+    /**
+     * Reloads the pipeline list without what refresh() throws away: details
+     * kept current by realtime events stay cached and no loading state is
+     * shown, so nothing flickers.
+     */
+    reconcile(): void {
+        this.loadPipelines(true);
+    }
+
+    /**
+     * Switches the tree to a new set of connections. With more than one,
+     * pipelines are grouped by environment at the root.
+     */
+    setApis(apis: ControlHubAPI[]): void {
+        const previous = new Map(this.sources.map(source => [source.api.profile.name, source]));
+        this.sources = apis.map(api => createSource(api, previous.get(api.profile.name)?.pageCount));
+        this.refresh();
+    }
+
+    /** The client for the environment a pipeline was listed from, if it is listed. */
+    findApiForPipeline(pipelineId: string): ControlHubAPI | undefined {
+        return this.sources.find(s => s.pipelines.some(p => p.id === pipelineId))?.api;
+    }
+
+    highlightPipeline(pipelineId: string | undefined): void {
+        this.highlightedPipelineId = pipelineId;
+        this.refresh();
+    }
+
+    /** Marks pipelines built from the workspace's HEAD commit or branch. */
+    setHead(head: WorkspaceHead | undefined): void {
+        this.head = head;
+        this._onDidChangeTreeData.fire();
+    }
+
+    getFilter(): PipelineFilter {
+        return { ...this.filter };
+    }
+
+    async setFilter(filter: PipelineFilter): Promise<void> {
+        // Drop empty values so the state and query params stay clean
+        this.filter = Object.fromEntries(
+            Object.entries(filter).filter(([, value]) => value !== undefined && value !== '')
+        ) as PipelineFilter;
+        await this.workspaceState.update(FILTER_STATE_KEY, this.filter);
+        // Pages loaded for the old filter don't apply to the new one
+        this.sources.forEach(source => source.pageCount = 1);
+        this.refresh();
+    }
+
+    isFiltered(): boolean {
+        return Object.keys(this.filter).length > 0;
+    }
+
+    getGrouping(): PipelineGrouping {
+        return this.grouping;
+    }
+
+    async setGrouping(grouping: PipelineGrouping): Promise<void> {
+        this.grouping = grouping;
+        await this.workspaceState.update(GROUPING_STATE_KEY, grouping);
+        this._onDidChangeTreeData.fire();
+    }
+
+    getPipeline(pipelineId: string): Pipeline | undefined {
+        return this.pipelineCache.get(pipelineId) || this.allPipelines().find(p => p.id === pipelineId);
+    }
+
+    /** Full pipeline details from memory or the offline cache, for when the server can't be reached. */
+    async getCachedDetails(pipelineId: string): Promise<Pipeline | undefined> {
+        const cached = this.pipelineCache.get(pipelineId);
+        if (cached && cached.stages && cached.stages.length > 0) {
+            return cached;
+        }
+        const source = this.sourceFor(pipelineId);
+        return this.offlineStoreFor(source)?.getDetails(source.api.profile.name, pipelineId);
+    }
+
+    /** Whether any environment is showing cached rather than current pipelines. */
+    isStale(): boolean {
+        return this.sources.some(source => source.stale);
+    }
+
+    dispose(): void {
+        this.clearRetryTimer();
+        this.loadController?.abort();
+    }
+
+    /**
+     * Shows a status change before the server confirms it. A pipeline going
+     * back to PENDING loses its end time, and stages from fromStage onwards
+     * (in the order they ran) are reset to PENDING. Returns a function that
+     * restores the previous state if the request fails.
+     */
+    applyOptimisticStatus(pipelineId: string, status: PipelineStatus, fromStage?: string): () => void {
+        const source = this.sources.find(s => s.pipelines.some(p => p.id === pipelineId));
+        const listSnapshot = source?.pipelines.find(p => p.id === pipelineId);
+        const cacheSnapshot = this.pipelineCache.get(pipelineId);
+        const restarting = status === PipelineStatus.PENDING;
+
+        const update = (pipeline: Pipeline): Pipeline => {
+            const stages = pipeline.stages || [];
+            const ordered = [...stages].sort((a, b) => a.startedAt - b.startedAt);
+            const fromIndex = ordered.findIndex(stage => stage.stageName === fromStage);
+            const reset = new Set(fromIndex < 0 ? [] : ordered.slice(fromIndex).map(stage => stage.stageName));
+            return {
+                ...pipeline,
+                status,
+                endTime: restarting ? undefined : pipeline.endTime,
+                duration: restarting ? undefined : pipeline.duration,
+                stages: stages.map(stage => reset.has(stage.stageName)
+                    ? { ...stage, status: StageStatus.PENDING, completedAt: undefined, duration: undefined, errorMessage: undefined }
+                    : stage)
+            };
+        };
+
+        const replaceListed = (pipeline: Pipeline) => {
+            if (source) {
+                source.pipelines = source.pipelines.map(p => p.id === pipelineId ? pipeline : p);
+            }
+        };
+
+        if (listSnapshot) {
+            replaceListed(update(listSnapshot));
+        }
+        if (cacheSnapshot) {
+            this.pipelineCache.set(pipelineId, update(cacheSnapshot));
+        }
+        this._onDidChangeTreeData.fire();
+
+        return () => {
+            if (listSnapshot) {
+                replaceListed(listSnapshot);
+            }
+            if (cacheSnapshot) {
+                this.pipelineCache.set(pipelineId, cacheSnapshot);
+            }
+            this._onDidChangeTreeData.fire();
+        };
+    }
+
+    /**
+     * Folds a realtime event into the cached pipeline and repaints only its
+     * node. An event for a pipeline that isn't listed triggers one reload.
+     */
+    applyEvent(event: PipelineEvent): void {
+        if (event.type === 'log_chunk') {
+            return; // Log output doesn't change the tree
+        }
+        const pipelineId = event.pipelineId;
+
+        const source = this.sources.find(s => s.pipelines.some(p => p.id === pipelineId));
+        if (!source) {
+            // Most likely a run that started after the list was loaded
+            if (!this.reloadedFor.has(pipelineId)) {
+                this.reloadedFor.add(pipelineId);
+                this.reconcile();
+            }
+            return;
+        }
+
+        const listed = source.pipelines.find(p => p.id === pipelineId)!;
+        const updated = applyEventToPipeline(listed, event);
+        source.pipelines = source.pipelines.map(p => p.id === pipelineId ? updated : p);
+
+        const cached = this.pipelineCache.get(pipelineId);
+        if (cached) {
+            this.pipelineCache.set(pipelineId, applyEventToPipeline(cached, event));
+            this.livePipelines.add(pipelineId);
+        }
+
+        const item = this.pipelineItems.get(pipelineId);
+        if (!item || (this.grouping === 'status' && updated.status !== listed.status)) {
+            // Not rendered yet, or it moves to another status group
+            this._onDidChangeTreeData.fire();
+            return;
+        }
+        item.update(updated);
+        this._onDidChangeTreeData.fire(item);
+    }
+
     isVisible(): boolean {
         return this.visible;
     }
@@ -49,22 +280,23 @@ export class PipelineTreeProvider extends EventEmitter implements vscode.TreeDat
     getChildren(element?: TreeNode): Thenable<TreeNode[]> {
         if (!element) {
             // Root level - show loading or pipelines
-            if (this.loading) {
+            // Keep showing the old list while a refresh is in flight
+            if (this.loading && this.allPipelines().length === 0) {
                 return Promise.resolve([new LoadingItem()]);
             }
             
-            // Show pipelines with proper collapsible state
-            return Promise.resolve(
-                this.pipelines.map(pipeline => {
-                    // Check if pipeline has stages (using stageCount from list response)
-                    const hasStages = (pipeline.stageCount && pipeline.stageCount > 0) || 
-                                    (pipeline.stages && pipeline.stages.length > 0);
-                    return new PipelineItem(
-                        pipeline,
-                        hasStages ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None
-                    );
-                })
-            );
+            if (this.sources.length > 1) {
+                return Promise.resolve(this.sources.map(source => new EnvironmentItem(source.api)));
+            }
+            return Promise.resolve(this.getSourceChildren(this.sources[0]));
+        } else if (element instanceof EnvironmentItem) {
+            const source = this.sources.find(s => s.api === element.api);
+            return Promise.resolve(source ? this.getSourceChildren(source) : []);
+        } else if (element instanceof GroupItem) {
+            // Events may have replaced the pipelines since the group was built
+            return Promise.resolve(element.pipelines.map(pipeline =>
+                this.createPipelineItem(this.allPipelines().find(p => p.id === pipeline.id) || pipeline)
+            ));
         } else if (element instanceof PipelineItem) {
             // Lazy load full pipeline details if not cached
             return this.loadPipelineStages(element);
@@ -74,6 +306,69 @@ export class PipelineTreeProvider extends EventEmitter implements vscode.TreeDat
         }
     }
 
+    private allPipelines(): Pipeline[] {
+        return this.sources.flatMap(source => source.pipelines);
+    }
+
+    private sourceFor(pipelineId: string): PipelineSource {
+        return this.sources.find(s => s.pipelines.some(p => p.id === pipelineId)) || this.sources[0];
+    }
+
+    private getSourceChildren(source: PipelineSource): TreeNode[] {
+        const items: TreeNode[] = this.grouping !== 'none'
+            ? this.getGroups(source)
+            : source.pipelines.map(pipeline => this.createPipelineItem(pipeline));
+
+        if (source.stale) {
+            items.unshift(new StaleItem(source.loadedAt, source.error, this.loading));
+        }
+
+        if (source.pipelines.length < source.total) {
+            items.push(new LoadMoreItem(source.api.profile.name, source.pipelines.length, source.total, source.loadingMore));
+        }
+        return items;
+    }
+
+    private createPipelineItem(pipeline: Pipeline): PipelineItem {
+        const item = new PipelineItem(
+            pipeline,
+            pipeline.id === this.highlightedPipelineId,
+            matchWorkspaceHead(pipeline, this.head)
+        );
+        this.pipelineItems.set(pipeline.id, item);
+        return item;
+    }
+
+    private getGroups(source: PipelineSource): GroupItem[] {
+        const groups = new Map<string, Pipeline[]>();
+
+        source.pipelines.forEach(pipeline => {
+            const key = this.getGroupKey(pipeline);
+            const group = groups.get(key) || [];
+            group.push(pipeline);
+            groups.set(key, group);
+        });
+
+        return Array.from(groups.entries())
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([key, pipelines]) => new GroupItem(key, this.grouping, pipelines, source.api.profile.name));
+    }
+
+    private getGroupKey(pipeline: Pipeline): string {
+        switch (this.grouping) {
+            case 'application':
+                return pipeline.appName;
+            case 'status':
+                return pipeline.status;
+            case 'branch':
+                return pipeline.trigger.branch || '(no branch)';
+            case 'trigger':
+                return pipeline.trigger.type || '(unknown)';
+            default:
+                return '';
+        }
+    }
+
     private async loadPipelineStages(element: PipelineItem): Promise<TreeNode[]> {
         const pipelineId = element.pipeline.id;
         
@@ -86,22 +381,29 @@ export class PipelineTreeProvider extends EventEmitter implements vscode.TreeDat
         // Check cache first
         let fullPipeline = this.pipelineCache.get(pipelineId);
         
-        // Force refresh if pipeline is RUNNING or if cache is stale
+        // Running pipelines go stale unless realtime events keep them current
+        const isRunning = (fullPipeline && fullPipeline.status === PipelineStatus.RUNNING) ||
+                        element.pipeline.status === PipelineStatus.RUNNING;
         const shouldRefresh = !fullPipeline || 
                             !fullPipeline.stages || 
-                            fullPipeline.status === PipelineStatus.RUNNING ||
-                            element.pipeline.status === PipelineStatus.RUNNING;
+                            (isRunning && !this.livePipelines.has(pipelineId));
         
         if (shouldRefresh) {
+            const source = this.sourceFor(pipelineId);
             try {
-                const pipelineDetails = await this.controlHubAPI.getPipeline(pipelineId);
+                const pipelineDetails = await source.api.getPipeline(pipelineId);
                 if (pipelineDetails) {
                     fullPipeline = pipelineDetails;
                     this.pipelineCache.set(pipelineId, fullPipeline);
+                    this.offlineStoreFor(source)?.saveDetails(source.api.profile.name, fullPipeline);
                 }
             } catch (error) {
                 console.error('Failed to load pipeline details:', error);
-                return [];
+                // Fall back to the details saved the last time they could be loaded
+                fullPipeline = fullPipeline || await this.offlineStoreFor(source)?.getDetails(source.api.profile.name, pipelineId);
+                if (!fullPipeline) {
+                    return [];
+                }
             }
         }
         
@@ -113,17 +415,127 @@ export class PipelineTreeProvider extends EventEmitter implements vscode.TreeDat
         return [];
     }
 
-    private async loadPipelines() {
-        this.loading = true;
+    /** In the background, the tree keeps showing what it has until the Control Hub answers. */
+    private async loadPipelines(background: boolean = false) {
+        this.clearRetryTimer();
+        // A refresh supersedes one still waiting on a slow Control Hub
+        const previous = this.loadController;
+        const controller = new AbortController();
+        this.loadController = controller;
+
+        if (!background) {
+            this.loading = true;
+            this._onDidChangeTreeData.fire();
+
+            // Show what was cached last time until the Control Hub answers
+            await Promise.all(
+                this.sources.filter(source => source.pipelines.length === 0).map(source => this.fillFromCache(source))
+            );
+            this._onDidChangeTreeData.fire();
+        }
+
+        const loads = Promise.all(this.sources.map(source => this.loadSource(source, controller.signal)));
+        // Only now, so identical requests still in flight are shared instead of restarted
+        previous?.abort();
+        await loads;
+        if (controller.signal.aborted) {
+            return;
+        }
+        this.loadController = null;
+
+        this.loading = false;
         this._onDidChangeTreeData.fire();
-        
+
+        if (this.sources.some(source => source.error)) {
+            this.retryTimer = setTimeout(() => {
+                this.retryTimer = null;
+                this.refresh();
+            }, RECONNECT_RETRY_INTERVAL);
+        }
+    }
+
+    private async loadSource(source: PipelineSource, signal: AbortSignal) {
+        // Reload every page that was loaded so refreshes don't lose older runs
+        const offsets = Array.from({ length: source.pageCount }, (_, page) => page * PAGE_SIZE);
+        const results = await Promise.all(
+            offsets.map(offset => source.api.listPipelines(this.filter, PAGE_SIZE, offset, { signal }))
+        );
+        if (signal.aborted) {
+            return;
+        }
+
+        const pages: PipelinePage[] = [];
+        let error: ControlHubError | undefined;
+        for (const result of results) {
+            if (!result.ok) {
+                error = result.error;
+                break;
+            }
+            pages.push(result.value);
+        }
+
+        if (!error) {
+            source.pipelines = mergePages([], pages.flatMap(page => page.pipelines));
+            source.total = pages[0].total;
+            source.stale = false;
+            source.error = undefined;
+            source.loadedAt = Date.now();
+            this.offlineStoreFor(source)?.saveList(source.api.profile.name, source.pipelines, source.total);
+            return;
+        }
+
+        console.warn(`Failed to load pipelines for ${source.api.profile.name}: ${error.message}`);
+        // Keep whatever is shown (an earlier load or the cache) rather than an empty list
+        source.stale = true;
+        source.error = error;
+        if (source.pipelines.length === 0) {
+            await this.fillFromCache(source);
+        }
+    }
+
+    private async fillFromCache(source: PipelineSource) {
+        const snapshot = await this.offlineStoreFor(source)?.load(source.api.profile.name);
+        if (!snapshot || source.pipelines.length > 0) {
+            return;
+        }
+        // The snapshot may have been saved under a different filter
+        source.pipelines = snapshot.pipelines.filter(pipeline => matchesFilter(pipeline, this.filter));
+        source.total = source.pipelines.length;
+        source.loadedAt = snapshot.savedAt;
+        source.stale = true;
+    }
+
+    /** Simulated pipelines must neither end up in nor be mixed with the profile's real offline cache. */
+    private offlineStoreFor(source: PipelineSource): OfflineStore | undefined {
+        return source.api.isSimulated() ? undefined : this.offlineStore;
+    }
+
+    private clearRetryTimer() {
+        if (this.retryTimer) {
+            clearTimeout(this.retryTimer);
+            this.retryTimer = null;
+        }
+    }
+
+    async loadMore(profileName?: string): Promise<void> {
+        const source = this.sources.find(s => s.api.profile.name === profileName) || this.sources[0];
+        if (source.loadingMore || this.loading) {
+            return;
+        }
+        source.loadingMore = true;
+        this._onDidChangeTreeData.fire();
+
         try {
-            this.pipelines = await this.controlHubAPI.listPipelines(undefined, undefined, 20);
-        } catch (error) {
-            console.error('Failed to load pipelines:', error);
-            this.pipelines = [];
+            const result = await source.api.listPipelines(this.filter, PAGE_SIZE, source.pipelines.length);
+            if (!result.ok) {
+                vscode.window.showWarningMessage(`Could not load more pipelines: ${result.error.message}`);
+                return;
+            }
+            source.pipelines = mergePages(source.pipelines, result.value.pipelines);
+            source.total = result.value.total;
+            source.pageCount = Math.ceil(source.pipelines.length / PAGE_SIZE);
         } finally {
-            this.loading = false;
+            source.loadingMore = false;
             this._onDidChangeTreeData.fire();
         }
     }
@@ -133,10 +545,7 @@ export class PipelineTreeProvider extends EventEmitter implements vscode.TreeDat
 
         // Use actual stages from the pipeline
         pipeline.stages.forEach(stage => {
-            // Duration is already in seconds from the API
-            const duration = stage.duration !== undefined ? stage.duration : 
-                (stage.completedAt && stage.startedAt ? 
-                    (stage.completedAt - stage.startedAt) : 0);
+            const duration = getStageDuration(stage) ?? 0;
 
             // Debug logging for frontend_build
             if (stage.stageName === 'frontend_build') {
@@ -166,15 +575,12 @@ export class PipelineTreeProvider extends EventEmitter implements vscode.TreeDat
 
 export class PipelineItem extends vscode.TreeItem {
     constructor(
-        public readonly pipeline: Pipeline,
-        public readonly collapsibleState: vscode.TreeItemCollapsibleState
+        public pipeline: Pipeline,
+        private readonly highlighted: boolean = false,
+        private readonly headMatch?: HeadMatch
     ) {
-        super(pipeline.appName, collapsibleState);
-        
-        this.description = this.getDescription();
-        this.tooltip = this.getTooltip();
-        this.iconPath = this.getIcon();
-        this.contextValue = 'pipeline';
+        super(pipeline.appName);
+        this.render();
         
         // Set command to show pipeline details
         this.command = {
@@ -184,10 +590,36 @@ export class PipelineItem extends vscode.TreeItem {
         };
     }
 
+    /** Re-renders the item in place for a newer version of the same pipeline. */
+    update(pipeline: Pipeline): void {
+        this.pipeline = pipeline;
+        this.render();
+    }
+
+    private render(): void {
+        const pipeline = this.pipeline;
+        this.label = this.highlighted
+            ? { label: pipeline.appName, highlights: [[0, pipeline.appName.length]] }
+            : pipeline.appName;
+
+        // Check if pipeline has stages (using stageCount from list response)
+        const hasStages = (pipeline.stageCount && pipeline.stageCount > 0) || 
+                        (pipeline.stages && pipeline.stages.length > 0);
+        this.collapsibleState = hasStages ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None;
+
+        this.description = this.highlighted ? `★ ${this.getDescription()}` : this.getDescription();
+        if (this.headMatch) {
+            this.description += ` - this ${this.headMatch}`;
+        }
+        this.tooltip = this.getTooltip();
+        this.iconPath = this.getIcon();
+        // Includes the status so menus can offer cancel/retry only where they apply
+        this.contextValue = `pipeline.${pipeline.status}`;
+    }
+
     private getDescription(): string {
-        const duration = this.pipeline.duration 
-            ? `${Math.round(this.pipeline.duration / 1000)}s` 
-            : 'Running';
+        const seconds = getPipelineDuration(this.pipeline);
+        const duration = seconds !== undefined ? formatDuration(seconds) : 'Running';
         
         // Show both date and time in local timezone
         const date = new Date(this.pipeline.startTime * 1000);
@@ -227,7 +659,9 @@ export class PipelineItem extends vscode.TreeItem {
         return `${this.pipeline.appName}\n` +
             `Status: ${this.pipeline.status}\n` +
             `${triggerInfo}\n` +
-            `Started: ${startDate.toLocaleString('en-US', dateOptions)}`;
+            `Started: ${startDate.toLocaleString('en-US', dateOptions)}` +
+            (this.headMatch === 'commit' ? '\nBuilt from the workspace HEAD commit' : '') +
+            (this.headMatch === 'branch' ? '\nBuilt from another commit of the workspace branch' : '');
     }
 
     private getIcon(): vscode.ThemeIcon {
@@ -246,7 +680,7 @@ export class PipelineItem extends vscode.TreeItem {
     }
 }
 
-class StageItem extends vscode.TreeItem {
+export class StageItem extends vscode.TreeItem {
     constructor(
         public readonly stage: string,
         public readonly status: string,
@@ -260,7 +694,7 @@ class StageItem extends vscode.TreeItem {
         this.description = status === StageStatus.RUNNING ? 'Running' : `${Math.round(duration)}s`;
         this.tooltip = `${stage}: ${status}${status === StageStatus.RUNNING ? '' : ` (${Math.round(duration)}s)`}`;
         this.iconPath = this.getIcon();
-        this.contextValue = 'stage';
+        this.contextValue = `stage.${status}`;
     }
 
     private getIcon(): vscode.ThemeIcon {
@@ -283,10 +717,115 @@ class StageItem extends vscode.TreeItem {
     }
 }
 
+/** Appends pipelines, skipping ones already listed (pages shift when new runs start). */
+function mergePages(existing: Pipeline[], incoming: Pipeline[]): Pipeline[] {
+    const seen = new Set(existing.map(p => p.id));
+    return [...existing, ...incoming.filter(p => !seen.has(p.id) && seen.add(p.id))];
+}
+
+function matchesFilter(pipeline: Pipeline, filter: PipelineFilter): boolean {
+    return (!filter.appName || pipeline.appName === filter.appName) &&
+        (!filter.status || pipeline.status === filter.status) &&
+        (!filter.branch || pipeline.trigger.branch === filter.branch) &&
+        (!filter.triggerUser || pipeline.trigger.user === filter.triggerUser) &&
+        (!filter.commit || isSameCommit(pipeline.trigger.commit, filter.commit));
+}
+
+export class EnvironmentItem extends vscode.TreeItem {
+    constructor(public readonly api: ControlHubAPI) {
+        super(api.profile.name, vscode.TreeItemCollapsibleState.Expanded);
+
+        this.id = `environment:${api.profile.name}`;
+        this.description = api.getBaseUrl().replace(/^https?:\/\//, '');
+        this.tooltip = `${api.profile.name}: ${api.getBaseUrl()}`;
+        this.iconPath = new vscode.ThemeIcon('server-environment');
+        this.contextValue = 'environment';
+    }
+}
+
+export class GroupItem extends vscode.TreeItem {
+    constructor(
+        public readonly key: string,
+        grouping: PipelineGrouping,
+        public readonly pipelines: Pipeline[],
+        environment: string
+    ) {
+        super(key, vscode.TreeItemCollapsibleState.Expanded);
+
+        this.id = `group:${environment}:${grouping}:${key}`;
+        this.description = `${pipelines.length}`;
+        this.iconPath = GroupItem.getIcon(grouping, key);
+        this.contextValue = 'group';
+    }
+
+    private static getIcon(grouping: PipelineGrouping, key: string): vscode.ThemeIcon {
+        switch (grouping) {
+            case 'application':
+                return new vscode.ThemeIcon('package');
+            case 'branch':
+                return new vscode.ThemeIcon('git-branch');
+            case 'trigger':
+                return new vscode.ThemeIcon('zap');
+            case 'status':
+                return key === PipelineStatus.FAILED
+                    ? new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed'))
+                    : new vscode.ThemeIcon('symbol-enum');
+            default:
+                return new vscode.ThemeIcon('folder');
+        }
+    }
+}
+
 class LoadingItem extends vscode.TreeItem {
     constructor() {
         super('Loading pipelines...', vscode.TreeItemCollapsibleState.None);
         this.iconPath = new vscode.ThemeIcon('sync~spin');
         this.contextValue = 'loading';
     }
-}
\ No newline at end of file
+}
+
+class StaleItem extends vscode.TreeItem {
+    constructor(loadedAt: number | undefined, error: ControlHubError | undefined, refreshing: boolean) {
+        const problem = error ? describeControlHubError(error) : 'Control Hub unreachable';
+        super(loadedAt ? `Stale since ${formatLoadedAt(loadedAt)}` : problem, vscode.TreeItemCollapsibleState.None);
+        if (refreshing) {
+            this.description = error ? 'Reconnecting...' : 'Refreshing...';
+        } else if (error) {
+            this.description = loadedAt ? problem : undefined;
+        }
+        const reason = error ? `${error.message}. ` : '';
+        this.tooltip = loadedAt
+            ? `${reason}Showing pipelines cached at ${new Date(loadedAt).toLocaleString()}. Click to retry.`
+            : `${reason}No cached pipelines. Click to retry.`;
+        this.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground'));
+        this.contextValue = 'stale';
+        this.command = {
+            command: 'thinkube-cicd.refreshPipelines',
+            title: 'Refresh Pipelines'
+        };
+    }
+}
+
+/** HH:MM for today, with the date for anything older. */
+function formatLoadedAt(timestamp: number): string {
+    const date = new Date(timestamp);
+    const time = date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false });
+    if (date.toDateString() === new Date().toDateString()) {
+        return time;
+    }
+    return `${date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} ${time}`;
+}
+
+class LoadMoreItem extends vscode.TreeItem {
+    constructor(profileName: string, loaded: number, total: number, loading: boolean) {
+        super(loading ? 'Loading more...' : 'Load more...', vscode.TreeItemCollapsibleState.None);
+        this.description = `${loaded} of ${total}`;
+        this.iconPath = new vscode.ThemeIcon(loading ? 'sync~spin' : 'ellipsis');
+        this.contextValue = 'loadMore';
+        this.command = {
+            command: 'thinkube-cicd.loadMorePipelines',
+            title: 'Load More Pipelines',
+            arguments: [profileName]
+        };
+    }
+}
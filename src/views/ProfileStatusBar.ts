@@ -0,0 +1,45 @@
+import * as vscode from 'vscode';
+import { ProfileManager } from '../profiles/ProfileManager';
+
+/**
+ * Shows the active connection profile in the status bar and switches
+ * profiles on click. Hidden while only the implicit default profile exists.
+ */
+export class ProfileStatusBar implements vscode.Disposable {
+    private readonly _item: vscode.StatusBarItem;
+    private _disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly profiles: ProfileManager) {
+        this._item = vscode.window.createStatusBarItem('thinkube-cicd.profile', vscode.StatusBarAlignment.Left, 50);
+        this._item.name = 'Thinkube Environment';
+        this._item.command = 'thinkube-cicd.switchProfile';
+
+        this._disposables.push(
+            this._item,
+            profiles.onDidChangeActiveProfile(() => this.update()),
+            profiles.onDidChangeProfiles(() => this.update())
+        );
+        this.update();
+    }
+
+    update() {
+        if (!this.profiles.hasMultipleProfiles()) {
+            this._item.hide();
+            return;
+        }
+
+        const profile = this.profiles.getActiveProfile();
+        this._item.text = `$(server-environment) ${profile.name}`;
+        this._item.tooltip = `Thinkube environment: ${profile.name}\n${profile.apiUrl}\nClick to switch`;
+        this._item.show();
+    }
+
+    dispose() {
+        while (this._disposables.length) {
+            const x = this._disposables.pop();
+            if (x) {
+                x.dispose();
+            }
+        }
+    }
+}
@@ -0,0 +1,76 @@
+import * as vscode from 'vscode';
+import { EventRecorder } from '../recording/EventRecorder';
+import { RecordingReplayer } from '../recording/RecordingReplayer';
+import { formatDuration } from '../utils/format';
+
+/**
+ * Shows that a recording or a replay is in progress, and stops it on
+ * click. Hidden otherwise.
+ */
+export class RecordingStatusBar implements vscode.Disposable {
+    private readonly _item: vscode.StatusBarItem;
+    private _disposables: vscode.Disposable[] = [];
+    private _replayer: RecordingReplayer | undefined;
+    private _tickTimer: NodeJS.Timeout | null = null;
+
+    constructor(private readonly recorder: EventRecorder) {
+        this._item = vscode.window.createStatusBarItem('thinkube-cicd.recording', vscode.StatusBarAlignment.Left, 48);
+        this._item.name = 'Thinkube Recording';
+
+        this._disposables.push(
+            this._item,
+            recorder.onDidChangeRecording(() => this.update())
+        );
+        this.update();
+    }
+
+    setReplayer(replayer: RecordingReplayer | undefined) {
+        this._replayer = replayer;
+        if (this._tickTimer) {
+            clearInterval(this._tickTimer);
+            this._tickTimer = null;
+        }
+        if (replayer) {
+            // Keep the replay position current
+            this._tickTimer = setInterval(() => this.update(), 1000);
+        }
+        this.update();
+    }
+
+    update() {
+        const replayer = this._replayer;
+        if (replayer) {
+            const position = formatDuration(replayer.getPosition() / 1000);
+            const duration = formatDuration(replayer.getDuration() / 1000);
+            this._item.text = replayer.isFinished()
+                ? '$(debug-stop) Replay finished'
+                : `$(play) Replay ${position} / ${duration} (${replayer.speed}x)`;
+            this._item.tooltip = `Replaying a recording of ${replayer.recording.header.profile}` +
+                ` from ${new Date(replayer.recording.header.startedAt).toLocaleString()}\nClick to return to live data`;
+            this._item.command = 'thinkube-cicd.stopReplay';
+            this._item.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+            this._item.show();
+        } else if (this.recorder.isRecording()) {
+            this._item.text = '$(record) Recording';
+            this._item.tooltip = 'Recording realtime events and REST responses\nClick to stop';
+            this._item.command = 'thinkube-cicd.stopRecording';
+            this._item.backgroundColor = new vscode.ThemeColor('statusBarItem.errorBackground');
+            this._item.show();
+        } else {
+            this._item.hide();
+        }
+    }
+
+    dispose() {
+        if (this._tickTimer) {
+            clearInterval(this._tickTimer);
+            this._tickTimer = null;
+        }
+        while (this._disposables.length) {
+            const x = this._disposables.pop();
+            if (x) {
+                x.dispose();
+            }
+        }
+    }
+}
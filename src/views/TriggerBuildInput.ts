@@ -0,0 +1,107 @@
+import * as vscode from 'vscode';
+import { TriggerOptions } from '../models/Pipeline';
+
+const TOTAL_STEPS = 3;
+
+/**
+ * Walks the user through branch, commit and parameter selection for a build.
+ * Returns undefined if any step is cancelled.
+ */
+export async function collectTriggerOptions(
+    appName: string,
+    knownBranches: string[]
+): Promise<TriggerOptions | undefined> {
+    const branch = await pickBranch(appName, knownBranches);
+    if (branch === undefined) {
+        return undefined;
+    }
+
+    const commit = await vscode.window.showInputBox({
+        title: `Trigger Build: ${appName} (2/${TOTAL_STEPS})`,
+        prompt: `Commit SHA to build (leave empty for the HEAD of ${branch})`,
+        placeHolder: 'e.g. 3f2a9c1',
+        ignoreFocusOut: true,
+        validateInput: (value) => {
+            if (value && !/^[0-9a-fA-F]{7,40}$/.test(value.trim())) {
+                return 'Commit must be a 7 to 40 character hex SHA';
+            }
+            return null;
+        }
+    });
+    if (commit === undefined) {
+        return undefined;
+    }
+
+    const parameterInput = await vscode.window.showInputBox({
+        title: `Trigger Build: ${appName} (3/${TOTAL_STEPS})`,
+        prompt: 'Optional build parameters as KEY=VALUE pairs, separated by commas',
+        placeHolder: 'e.g. SKIP_TESTS=true, IMAGE_TAG=debug',
+        ignoreFocusOut: true,
+        validateInput: (value) => {
+            try {
+                parseParameters(value);
+                return null;
+            } catch (error: any) {
+                return error.message;
+            }
+        }
+    });
+    if (parameterInput === undefined) {
+        return undefined;
+    }
+
+    return {
+        branch,
+        commit: commit.trim() || undefined,
+        parameters: parseParameters(parameterInput)
+    };
+}
+
+async function pickBranch(appName: string, knownBranches: string[]): Promise<string | undefined> {
+    const title = `Trigger Build: ${appName} (1/${TOTAL_STEPS})`;
+    const branches = Array.from(new Set(['main', ...knownBranches]));
+    const otherLabel = '$(edit) Other branch...';
+
+    const items: vscode.QuickPickItem[] = [
+        ...branches.map(branch => ({ label: branch })),
+        { label: otherLabel, alwaysShow: true }
+    ];
+
+    const selected = await vscode.window.showQuickPick(items, {
+        title,
+        placeHolder: 'Select the branch to build',
+        ignoreFocusOut: true
+    });
+    if (!selected) {
+        return undefined;
+    }
+    if (selected.label !== otherLabel) {
+        return selected.label;
+    }
+
+    const branch = await vscode.window.showInputBox({
+        title,
+        prompt: 'Branch name',
+        ignoreFocusOut: true,
+        validateInput: (value) => value.trim() ? null : 'Branch name is required'
+    });
+    return branch?.trim();
+}
+
+function parseParameters(input: string): { [key: string]: string } {
+    const parameters: { [key: string]: string } = {};
+
+    for (const pair of input.split(',')) {
+        const trimmed = pair.trim();
+        if (!trimmed) {
+            continue;
+        }
+        const separator = trimmed.indexOf('=');
+        if (separator <= 0) {
+            throw new Error(`Invalid parameter "${trimmed}", expected KEY=VALUE`);
+        }
+        parameters[trimmed.slice(0, separator).trim()] = trimmed.slice(separator + 1).trim();
+    }
+
+    return parameters;
+}